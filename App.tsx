@@ -5,45 +5,77 @@ import Login from './components/Login';
 import Layout from './components/Layout';
 import InternDashboard from './components/InternDashboard';
 import AdminDashboard from './components/AdminDashboard';
+import CertificateVerification from './components/CertificateVerification';
+import { auth } from './services/authService';
+import { api } from './services/apiService';
+
+const SESSION_TOKEN_KEY = 'intern_session_token';
+
+// Public verification links look like #/verify/CIAL-XXXX-XXXX and work signed in or out
+const readVerifyRoute = (): string | null => {
+  const match = window.location.hash.match(/^#\/verify(?:\/(.*))?$/);
+  return match ? decodeURIComponent(match[1] || '') : null;
+};
+
+// Staff roles share the management view; the service layer scopes what each one sees
+const DASHBOARDS: Record<UserRole, (user: User) => React.ReactNode> = {
+  [UserRole.INTERN]: (user) => <InternDashboard user={user} />,
+  [UserRole.MENTOR]: (user) => <AdminDashboard user={user} />,
+  [UserRole.REVIEWER]: (user) => <AdminDashboard user={user} />,
+  [UserRole.ADMIN]: (user) => <AdminDashboard user={user} />
+};
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [verifyCode, setVerifyCode] = useState<string | null>(readVerifyRoute);
+
+  useEffect(() => {
+    const onHashChange = () => setVerifyCode(readVerifyRoute());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
 
   useEffect(() => {
-    // Session expiration check (Daily)
-    const storedUser = localStorage.getItem('intern_session_user');
-    const storedTimestamp = localStorage.getItem('intern_session_timestamp');
+    // Legacy unsigned session keys are no longer trusted
+    localStorage.removeItem('intern_session_user');
+    localStorage.removeItem('intern_session_timestamp');
 
-    if (storedUser && storedTimestamp) {
-      const loginDate = new Date(parseInt(storedTimestamp)).toDateString();
-      const today = new Date().toDateString();
-      
-      if (loginDate === today) {
-        setUser(JSON.parse(storedUser));
-      } else {
-        // Only clear session data, not activity data
-        localStorage.removeItem('intern_session_user');
-        localStorage.removeItem('intern_session_timestamp');
-      }
+    // Signed token carries its own expiry; the account is re-read so revoked users drop out
+    const token = localStorage.getItem(SESSION_TOKEN_KEY);
+    if (!token) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
+    auth.restoreSession(token)
+      .then(restored => {
+        if (restored) {
+          api.setSession(restored);
+          setUser(restored);
+        } else localStorage.removeItem(SESSION_TOKEN_KEY);
+      })
+      .catch(() => localStorage.removeItem(SESSION_TOKEN_KEY))
+      .finally(() => setLoading(false));
   }, []);
 
-  const handleLogin = (userData: User) => {
+  const handleLogin = (userData: User, token: string) => {
+    api.setSession(userData);
     setUser(userData);
-    localStorage.setItem('intern_session_user', JSON.stringify(userData));
-    localStorage.setItem('intern_session_timestamp', Date.now().toString());
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
   };
 
   const handleLogout = () => {
+    api.setSession(null);
     setUser(null);
     // CRITICAL FIX: Only remove session keys. Do NOT call localStorage.clear()
     // This ensures 'cial_activities_...' history remains on the device.
-    localStorage.removeItem('intern_session_user');
-    localStorage.removeItem('intern_session_timestamp');
+    localStorage.removeItem(SESSION_TOKEN_KEY);
   };
 
+  if (verifyCode !== null) {
+    return <CertificateVerification initialCode={verifyCode} onExit={() => { window.location.hash = ''; }} />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-50">
@@ -58,11 +90,7 @@ const App: React.FC = () => {
 
   return (
     <Layout user={user} onLogout={handleLogout}>
-      {user.role === UserRole.ADMIN ? (
-        <AdminDashboard />
-      ) : (
-        <InternDashboard user={user} />
-      )}
+      {DASHBOARDS[user.role](user)}
     </Layout>
   );
 };
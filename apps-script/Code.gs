@@ -0,0 +1,216 @@
+/**
+ * Reference Apps Script deployment for the tracker (sheet contract v2).
+ * Paste into Extensions → Apps Script of the spreadsheet, then Deploy → Web app
+ * (execute as: me). See "Google Sheet deployment" in the README for the contract.
+ *
+ * Tabs are read by their header row. Rows written by the app use the record's
+ * field names as headers; columns the app does not know yet are appended.
+ */
+
+var SCHEMA_VERSION = 2;
+
+var TABS = {
+  interns: 'Interns',
+  staff: 'Staff',
+  cohorts: 'Cohorts',
+  activities: 'Activities',
+  leaveRequests: 'LeaveRequests',
+  holidays: 'Holidays',
+  certificates: 'Certificates'
+};
+
+// Must match CONFIG.AUTH in services/config.ts
+var OTP_LENGTH = 6;
+var OTP_TTL_MINUTES = 10;
+var OTP_MAX_ATTEMPTS = 5;
+
+function doGet(e) {
+  var params = (e && e.parameter) || {};
+  if (params.action === 'verifyCode') return json_(verifyCode_(params.internId, params.code));
+
+  var snapshot = { schemaVersion: SCHEMA_VERSION };
+  Object.keys(TABS).forEach(function (key) {
+    var rows = readTab_(TABS[key]);
+    if (rows) snapshot[key] = rows;
+  });
+  return json_(snapshot);
+}
+
+function doPost(e) {
+  var body = JSON.parse(e.postData.contents);
+  var action = body.action;
+  delete body.action;
+  var lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    switch (action) {
+      case undefined:
+      case 'update':
+        upsert_(TABS.activities, body);
+        break;
+      case 'createLeave':
+      case 'updateLeave':
+        upsert_(TABS.leaveRequests, body);
+        break;
+      case 'createCertificate':
+      case 'updateCertificate':
+        upsert_(TABS.certificates, body);
+        break;
+      case 'saveInterns':
+        replaceTab_(TABS.interns, body.interns);
+        break;
+      case 'saveHolidays':
+        replaceTab_(TABS.holidays, body.holidays);
+        break;
+      case 'requestCode':
+        requestCode_(body.internId);
+        break;
+      default:
+        return json_({ error: 'Unknown action ' + action });
+    }
+  } finally {
+    lock.releaseLock();
+  }
+  return json_({ ok: true });
+}
+
+/* ---------- One-time sign-in codes ---------- */
+
+function requestCode_(internId) {
+  var id = String(internId || '').trim().toUpperCase();
+  var account = findAccount_(id);
+  if (!account || !account.email) return; // Say nothing about unknown IDs
+  // UUIDs come from a secure generator; Math.random does not
+  var code = '';
+  for (var i = 0; i < OTP_LENGTH; i++) code += parseInt(Utilities.getUuid().replace(/-/g, '').slice(0, 8), 16) % 10;
+  CacheService.getScriptCache().put(codeKey_(id), JSON.stringify({ hash: hash_(id + ':' + code), attempts: 0 }), OTP_TTL_MINUTES * 60);
+  MailApp.sendEmail(account.email, 'Your sign-in code', 'Your sign-in code is ' + code + '. It expires in ' + OTP_TTL_MINUTES + ' minutes.');
+}
+
+function verifyCode_(internId, code) {
+  var id = String(internId || '').trim().toUpperCase();
+  var cache = CacheService.getScriptCache();
+  var stored = cache.get(codeKey_(id));
+  if (!stored) return { valid: false };
+  var pending = JSON.parse(stored);
+  if (pending.hash === hash_(id + ':' + String(code || '').trim())) {
+    cache.remove(codeKey_(id));
+    return { valid: true };
+  }
+  pending.attempts += 1;
+  if (pending.attempts >= OTP_MAX_ATTEMPTS) cache.remove(codeKey_(id));
+  else cache.put(codeKey_(id), JSON.stringify(pending), OTP_TTL_MINUTES * 60);
+  return { valid: false };
+}
+
+function findAccount_(id) {
+  var rows = (readTab_(TABS.interns) || []).concat(readTab_(TABS.staff) || []);
+  for (var i = 0; i < rows.length; i++) {
+    var rowId = cell_(rows[i], ['internId', 'Intern ID', 'Staff ID', 'ID']);
+    if (String(rowId || '').trim().toUpperCase() === id) {
+      return { email: String(cell_(rows[i], ['email', 'Email', 'Email Address']) || '').trim() };
+    }
+  }
+  return null;
+}
+
+function codeKey_(id) {
+  return 'otp:' + id;
+}
+
+function hash_(text) {
+  return Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, text)
+    .map(function (b) { return ('0' + (b & 0xff).toString(16)).slice(-2); })
+    .join('');
+}
+
+/* ---------- Tabs ---------- */
+
+function readTab_(name) {
+  var sheet = SpreadsheetApp.getActive().getSheetByName(name);
+  if (!sheet) return null;
+  var values = sheet.getDataRange().getValues();
+  if (values.length < 2) return [];
+  var headers = values[0];
+  return values.slice(1).map(function (row) {
+    var record = {};
+    headers.forEach(function (h, i) { if (h !== '') record[h] = row[i]; });
+    return record;
+  });
+}
+
+function sheetFor_(name) {
+  var spreadsheet = SpreadsheetApp.getActive();
+  return spreadsheet.getSheetByName(name) || spreadsheet.insertSheet(name);
+}
+
+// Same matching as the client: "Intern ID", "intern_id" and "internId" are one column
+function normalize_(header) {
+  return String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function columnOf_(headers, key) {
+  for (var i = 0; i < headers.length; i++) {
+    if (normalize_(headers[i]) === normalize_(key)) return i;
+  }
+  return -1;
+}
+
+/** Header row, extended with any field of `records` it lacks. */
+function headersFor_(sheet, records) {
+  var headers = sheet.getLastColumn() > 0 ? sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0] : [];
+  records.forEach(function (record) {
+    Object.keys(record).forEach(function (key) {
+      if (columnOf_(headers, key) === -1) headers.push(key);
+    });
+  });
+  sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+  return headers;
+}
+
+// Everything is written as plain text so Sheets never turns ISO dates or IDs into other types.
+// Columns the record does not carry keep their current cell.
+function toRow_(headers, record, current) {
+  var row = (current || []).slice();
+  Object.keys(record).forEach(function (key) {
+    var value = record[key];
+    row[columnOf_(headers, key)] = value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+  return headers.map(function (_, i) { return row[i] === undefined ? '' : row[i]; });
+}
+
+/** Overwrites the row with the record's id, or appends one. Re-sending a change is harmless. */
+function upsert_(name, record) {
+  var sheet = sheetFor_(name);
+  var headers = headersFor_(sheet, [record]);
+  var last = sheet.getLastRow();
+  var rows = last > 1 ? sheet.getRange(2, 1, last - 1, headers.length).getValues() : [];
+  var idColumn = columnOf_(headers, 'id');
+  var index = -1;
+  for (var i = 0; i < rows.length; i++) {
+    if (String(rows[i][idColumn]) === String(record.id)) { index = i; break; }
+  }
+  var target = sheet.getRange(index === -1 ? last + 1 : index + 2, 1, 1, headers.length);
+  target.setNumberFormat('@').setValues([toRow_(headers, record, index === -1 ? [] : rows[index])]);
+}
+
+function replaceTab_(name, records) {
+  var sheet = sheetFor_(name);
+  sheet.clearContents();
+  if (!records || records.length === 0) return;
+  var headers = headersFor_(sheet, records);
+  sheet.getRange(2, 1, records.length, headers.length)
+    .setNumberFormat('@')
+    .setValues(records.map(function (r) { return toRow_(headers, r); }));
+}
+
+function cell_(row, headers) {
+  for (var i = 0; i < headers.length; i++) {
+    if (row[headers[i]] !== undefined && row[headers[i]] !== '') return row[headers[i]];
+  }
+  return undefined;
+}
+
+function json_(value) {
+  return ContentService.createTextOutput(JSON.stringify(value)).setMimeType(ContentService.MimeType.JSON);
+}
@@ -0,0 +1,145 @@
+
+import React, { useState } from 'react';
+import { Activity, GapRun, Holiday } from '../types';
+import { getReviewStatus } from '../utils/logic';
+import { toDayNumber, fromDayNumber, programToday } from '../utils/dates';
+
+interface ActivityCalendarProps {
+  start: string; // ISO Date, first day shown
+  end: string;   // ISO Date, last day shown
+  activities: Activity[];
+  gaps: GapRun[];
+  maxAllowedGap: number;
+  excusedDates?: string[]; // Approved leave
+  holidays?: Holiday[];
+  todayStr?: string;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const hoursColor = (hours: number) => {
+  if (hours <= 0) return 'bg-slate-100';
+  if (hours < 2) return 'bg-blue-200';
+  if (hours < 3) return 'bg-blue-400';
+  return 'bg-blue-600';
+};
+
+/** GitHub-style grid: one column per week, colored by hours logged, breaching gaps in red. */
+const ActivityCalendar: React.FC<ActivityCalendarProps> = ({
+  start,
+  end,
+  activities,
+  gaps,
+  maxAllowedGap,
+  excusedDates = [],
+  holidays = [],
+  todayStr = programToday()
+}) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const startDay = toDayNumber(start);
+  const endDay = toDayNumber(end);
+  if (isNaN(startDay) || isNaN(endDay) || endDay < startDay) return null;
+
+  const byDate = new Map<string, Activity[]>();
+  activities.forEach(a => byDate.set(a.date, [...(byDate.get(a.date) || []), a]));
+  const hoursOn = (date: string) => (byDate.get(date) || []).reduce((acc, a) => acc + (Number(a.hours) || 0), 0);
+
+  const excused = new Set(excusedDates);
+  const holidayNames = new Map(holidays.map(h => [h.date, h.name]));
+  const breachDays = new Set<number>();
+  gaps.filter(g => g.days > maxAllowedGap).forEach(g => {
+    for (let d = toDayNumber(g.start); d <= toDayNumber(g.end); d++) breachDays.add(d);
+  });
+
+  // Day 0 of the epoch was a Thursday; pad the first column back to Sunday
+  const firstSunday = startDay - ((startDay + 4) % 7);
+  const weeks: number[][] = [];
+  for (let weekStart = firstSunday; weekStart <= endDay; weekStart += 7) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => weekStart + i));
+  }
+
+  const cellColor = (day: number, date: string) => {
+    const hours = hoursOn(date);
+    if (hours > 0) return hoursColor(hours);
+    if (holidayNames.has(date)) return 'bg-purple-300';
+    if (excused.has(date)) return 'bg-amber-300';
+    if (breachDays.has(day)) return 'bg-red-300';
+    return 'bg-slate-100';
+  };
+
+  const describe = (date: string) => {
+    const entries = byDate.get(date) || [];
+    if (entries.length > 0) return null;
+    if (holidayNames.has(date)) return `Holiday — ${holidayNames.get(date)}`;
+    if (excused.has(date)) return 'Approved leave';
+    if (date > todayStr) return 'Upcoming';
+    if (date === todayStr) return 'Today — nothing logged yet';
+    return breachDays.has(toDayNumber(date)) ? `Missed — part of a gap over ${maxAllowedGap} days` : 'No entry';
+  };
+
+  const hoveredEntries = hovered ? byDate.get(hovered) || [] : [];
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-1" onMouseLeave={() => setHovered(null)}>
+        <div className="flex flex-col gap-1 mr-1">
+          {WEEKDAYS.map((label, i) => (
+            <div key={i} className="w-3 h-3 text-[8px] font-bold text-slate-400 leading-3">{label}</div>
+          ))}
+        </div>
+        {weeks.map((week, wi) => (
+          <div key={wi} className="flex flex-col gap-1">
+            {week.map(day => {
+              if (day < startDay || day > endDay) return <div key={day} className="w-3 h-3" />;
+              const date = fromDayNumber(day);
+              return (
+                <div
+                  key={day}
+                  onMouseEnter={() => setHovered(date)}
+                  className={`w-3 h-3 rounded-sm cursor-default ${cellColor(day, date)} ${date === todayStr ? 'ring-2 ring-offset-1 ring-slate-900' : ''} ${date > todayStr ? 'opacity-40' : ''}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 min-h-[3rem] text-xs text-slate-600">
+        {hovered ? (
+          <div>
+            <span className="font-bold text-slate-900">{hovered}</span>
+            {hoveredEntries.length > 0 ? (
+              hoveredEntries.map(a => (
+                <p key={a.id} className="mt-1">
+                  <span className="font-bold">{a.hours}h • {a.category} • {getReviewStatus(a).replace('-', ' ')}</span>
+                  {' — '}{a.description.length > 120 ? `${a.description.slice(0, 120)}…` : a.description}
+                </p>
+              ))
+            ) : (
+              <p className="mt-1 text-slate-400">{describe(hovered)}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-slate-300">Hover a day for details.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-2 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+        <span>Less</span>
+        {['bg-slate-100', 'bg-blue-200', 'bg-blue-400', 'bg-blue-600'].map(c => <div key={c} className={`w-3 h-3 rounded-sm ${c}`} />)}
+        <span>More</span>
+        <div className="w-3 h-3 rounded-sm bg-red-300 ml-3" />
+        <span>Gap &gt; {maxAllowedGap} days</span>
+        <div className="w-3 h-3 rounded-sm bg-amber-300 ml-3" />
+        <span>Leave</span>
+        <div className="w-3 h-3 rounded-sm bg-purple-300 ml-3" />
+        <span>Holiday</span>
+        <div className="w-3 h-3 rounded-sm bg-slate-100 ring-2 ring-offset-1 ring-slate-900 ml-3" />
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityCalendar;
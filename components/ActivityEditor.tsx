@@ -0,0 +1,140 @@
+
+import React, { useState } from 'react';
+import { Activity, ActivityCategory } from '../types';
+import { api } from '../services/apiService';
+
+interface ActivityEditorProps {
+  activity: Activity;
+  onSaved: (updated: Activity) => void;
+  onCancel: () => void;
+}
+
+/** Inline correction form; every save or withdrawal is recorded as a revision by the service. */
+const ActivityEditor: React.FC<ActivityEditorProps> = ({ activity, onSaved, onCancel }) => {
+  const [formData, setFormData] = useState({
+    hours: activity.hours,
+    category: activity.category,
+    description: activity.description,
+    proofLink: activity.proofLink || '',
+    note: ''
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<Activity>) => {
+    setBusy(true);
+    setError('');
+    try {
+      onSaved(await action());
+    } catch (err: any) {
+      setError(err.message || 'Update failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => api.editActivity(activity.id, {
+      hours: formData.hours,
+      category: formData.category,
+      description: formData.description,
+      proofLink: formData.proofLink || undefined
+    }, formData.note));
+  };
+
+  const handleWithdraw = () => {
+    if (!window.confirm(`Withdraw the entry for ${activity.date}? It will no longer count toward eligibility.`)) return;
+    run(() => api.withdrawActivity(activity.id, formData.note));
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-2xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 font-bold text-slate-900 bg-white text-sm";
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4 bg-slate-50 border border-slate-200 rounded-[24px] p-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Hours</label>
+          <input
+            type="number"
+            min={0.5}
+            max={24}
+            step={0.25}
+            disabled={!!activity.sessions?.length}
+            title={activity.sessions?.length ? 'Hours come from the logged work sessions' : undefined}
+            className={`${inputClass} disabled:opacity-50`}
+            value={formData.hours}
+            onChange={(e) => setFormData({ ...formData, hours: parseFloat(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Category</label>
+          <select
+            className={inputClass}
+            value={formData.category}
+            onChange={(e) => setFormData({ ...formData, category: e.target.value as ActivityCategory })}
+          >
+            {Object.values(ActivityCategory).map(cat => <option key={cat} value={cat}>{cat}</option>)}
+          </select>
+        </div>
+      </div>
+      <textarea
+        className={`${inputClass} h-32 resize-none font-medium`}
+        value={formData.description}
+        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+      />
+      {!formData.proofLink.startsWith('data:') && (
+        <input
+          type="url"
+          className={inputClass}
+          placeholder="Proof link (optional)"
+          value={formData.proofLink}
+          onChange={(e) => setFormData({ ...formData, proofLink: e.target.value })}
+        />
+      )}
+      <input
+        type="text"
+        className={inputClass}
+        placeholder="Reason for the change (optional)"
+        value={formData.note}
+        onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+      />
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-red-100">
+          Error: {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-between gap-3">
+        <button
+          type="button"
+          onClick={handleWithdraw}
+          disabled={busy}
+          className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-red-600 border border-red-200 bg-white hover:bg-red-50 disabled:opacity-50"
+        >
+          Withdraw Entry
+        </button>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-500 border border-slate-200 bg-white hover:bg-slate-100 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white bg-slate-900 hover:bg-blue-600 disabled:opacity-50"
+          >
+            {busy ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ActivityEditor;
@@ -1,22 +1,63 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, Activity, EligibilityResult } from '../types';
+import { User, Activity, Cohort, EligibilityResult, Permission, ReviewStatus, LeaveRequest, LeaveStatus, Holiday, Certificate } from '../types';
 import { api } from '../services/apiService';
-import { calculateEligibility, calculateStats, formatCSV } from '../utils/logic';
+import { calculateInternEligibility, calculateStats, getReviewStatus, getApprovedLeaveDates, isWithdrawn } from '../utils/logic';
 import { CONFIG } from '../services/config';
+import { getRuleSet, getRequirement } from '../utils/rules';
+import { hasPermission } from '../services/permissions';
+import ReviewQueue from './ReviewQueue';
+import InternDetail from './InternDetail';
+import LeaveManager from './LeaveManager';
+import CertificateManager from './CertificateManager';
+import RosterManager from './RosterManager';
+import SyncReportPanel from './SyncReportPanel';
+import { SyncReport } from '../services/sheetSchema';
+import ExportDialog, { UNASSIGNED } from './ExportDialog';
+import { InternSummary } from '../utils/reportData';
+import { isActive } from '../utils/roster';
+import { buildProgramWorkbook, buildProgramReportHtml } from '../utils/programReport';
+import { downloadFile, printHtml } from '../utils/download';
+import { programToday } from '../utils/dates';
 
-const AdminDashboard: React.FC = () => {
+interface AdminDashboardProps {
+  user: User;
+}
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
   const [interns, setInterns] = useState<User[]>([]);
   const [allActivities, setAllActivities] = useState<Activity[]>([]);
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [cohortFilter, setCohortFilter] = useState('');
+  const [view, setView] = useState<'roster' | 'review' | 'leave' | 'certificates' | 'manage'>('roster');
+  const [selectedInternId, setSelectedInternId] = useState('');
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [u, a] = await Promise.all([api.getAllInterns(), api.getActivities()]);
+        const [u, a, c, l, h, cert] = await Promise.all([
+          api.getAllInterns(),
+          api.getActivities(),
+          api.getCohorts(),
+          api.getLeaveRequests(),
+          api.getHolidays(),
+          api.getCertificates()
+        ]);
         setInterns(u);
         setAllActivities(a);
+        setCohorts(c);
+        setLeaveRequests(l);
+        setHolidays(h);
+        setCertificates(cert);
+        // Read after the loads above, which are what fill the report
+        if (hasPermission(user, Permission.MANAGE_CONFIG)) setSyncReport(await api.getSyncReport());
       } catch (err) {
         console.error(err);
       } finally {
@@ -26,51 +67,125 @@ const AdminDashboard: React.FC = () => {
     fetchData();
   }, []);
 
-  const getInternStats = (internId: string) => {
-    const acts = allActivities.filter(a => a.internId === internId);
+  const handleReviewed = (updated: Activity) => {
+    setAllActivities(prev => prev.map(a => a.id === updated.id ? updated : a));
+  };
+
+  const handleLeaveDecided = (updated: LeaveRequest) => {
+    setLeaveRequests(prev => prev.map(l => l.id === updated.id ? updated : l));
+  };
+
+  const handleRosterSaved = (saved: User[]) => {
+    const byId = new Map(saved.map(i => [i.internId, i]));
+    setInterns(prev => [...prev.map(i => byId.get(i.internId) || i), ...saved.filter(i => !prev.some(p => p.internId === i.internId))]);
+  };
+
+  const handleCertificateSaved = (saved: Certificate) => {
+    setCertificates(prev => prev.some(c => c.id === saved.id) ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+  };
+
+  const getCohort = (intern: User) => cohorts.find(c => c.id === intern.cohortId);
+  const holidayDates = holidays.map(h => h.date);
+
+  const getInternStats = (intern: User) => {
+    const acts = allActivities.filter(a => a.internId === intern.internId);
     return {
         stats: calculateStats(acts),
-        eligibility: calculateEligibility(acts, '2024-05-01')
+        eligibility: calculateInternEligibility(intern, acts, getCohort(intern), {
+          excusedDates: getApprovedLeaveDates(intern.internId, leaveRequests),
+          holidayDates
+        })
     };
   };
 
-  const filteredInterns = interns.filter(i => 
+  // Deactivated interns only show up in the roster manager
+  const activeInterns = interns.filter(isActive);
+
+  const summarizeIntern = (intern: User): InternSummary => ({ intern, cohort: getCohort(intern), ...getInternStats(intern) });
+
+  const cohortInterns = cohortFilter
+    ? activeInterns.filter(i => cohortFilter === UNASSIGNED ? !getCohort(i) : i.cohortId === cohortFilter)
+    : activeInterns;
+
+  const cohortActivities = cohortFilter
+    ? allActivities.filter(a => cohortInterns.some(i => i.internId === a.internId))
+    : allActivities;
+
+  const cohortLeave = cohortFilter
+    ? leaveRequests.filter(l => cohortInterns.some(i => i.internId === l.internId))
+    : leaveRequests;
+
+  const filteredInterns = cohortInterns.filter(i => 
     i.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
     i.internId.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const handleExport = () => {
-    const exportData = interns.map(i => {
-        const { stats, eligibility } = getInternStats(i.internId);
-        return {
-            ID: i.internId,
-            Name: i.name,
-            Email: i.email,
-            ActiveDays: stats.totalActiveDays,
-            AvgHours: stats.averageHours.toFixed(1),
-            MaxGap: eligibility.maxGapDays,
-            Status: eligibility.isEligible ? 'Eligible' : 'Pending'
-        };
-    });
-    const csvContent = formatCSV(exportData);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `intern_report_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const cohortSummaries = cohorts.map(cohort => {
+    const members = activeInterns.filter(i => i.cohortId === cohort.id);
+    const results = members.map(getInternStats);
+    return {
+      cohort,
+      members: members.length,
+      eligible: results.filter(r => r.eligibility.isEligible).length,
+      atRisk: results.filter(r => !r.eligibility.isEligible && !r.eligibility.isTargetReachable).length,
+      avgActiveDays: results.length > 0 ? results.reduce((acc, r) => acc + r.stats.totalActiveDays, 0) / results.length : 0
+    };
+  });
+
+  const reportScope = () => {
+    const cohortName = cohortFilter === UNASSIGNED ? 'Unassigned' : cohorts.find(c => c.id === cohortFilter)?.name;
+    return { summaries: cohortInterns.map(summarizeIntern), title: cohortName ? `Program Report • ${cohortName}` : 'Program Report' };
+  };
+
+  const handleWorkbook = () => {
+    const { summaries } = reportScope();
+    downloadFile(buildProgramWorkbook(summaries, cohortActivities), `program_report_${programToday()}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  };
+
+  const handlePrintReport = () => {
+    const { summaries, title } = reportScope();
+    try {
+      printHtml(buildProgramReportHtml(summaries, cohortActivities, cohorts, title));
+    } catch (err: any) {
+      window.alert(err.message);
+    }
   };
 
   if (loading) return <div className="p-8 text-center">Syncing with Data Source...</div>;
 
+  const selectedIntern = interns.find(i => i.internId === selectedInternId);
+  if (selectedIntern) {
+    return (
+      <InternDetail
+        intern={selectedIntern}
+        cohort={getCohort(selectedIntern)}
+        activities={allActivities.filter(a => a.internId === selectedIntern.internId)}
+        eligibility={getInternStats(selectedIntern).eligibility}
+        leaveRequests={leaveRequests.filter(l => l.internId === selectedIntern.internId)}
+        holidays={holidays}
+        canEdit={hasPermission(user, Permission.EDIT_ANY_ACTIVITY)}
+        onActivityUpdated={handleReviewed}
+        onClose={() => setSelectedInternId('')}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {exporting && (
+        <ExportDialog
+          interns={activeInterns}
+          cohorts={cohorts}
+          activities={allActivities}
+          summarize={summarizeIntern}
+          initialCohortId={cohortFilter}
+          onClose={() => setExporting(false)}
+        />
+      )}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
-          <h2 className="text-2xl font-bold text-slate-900">Program Management</h2>
+          <h2 className="text-2xl font-bold text-slate-900">{hasPermission(user, Permission.VIEW_ALL_INTERNS) ? 'Program Management' : 'My Assigned Interns'}</h2>
           <div className="flex items-center gap-2 mt-1">
              <div className={`w-2 h-2 rounded-full ${CONFIG.GOOGLE_SHEET_API_URL ? 'bg-green-500 animate-pulse' : 'bg-amber-400'}`}></div>
              <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">
@@ -79,8 +194,9 @@ const AdminDashboard: React.FC = () => {
           </div>
         </div>
         <div className="flex gap-3">
+          {hasPermission(user, Permission.EXPORT_DATA) && (
           <button 
-            onClick={handleExport}
+            onClick={() => setExporting(true)}
             className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 transition-colors shadow-sm"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -88,26 +204,119 @@ const AdminDashboard: React.FC = () => {
             </svg>
             Export Data (CSV)
           </button>
+          )}
+          {hasPermission(user, Permission.EXPORT_DATA) && (
+          <button 
+            onClick={handleWorkbook}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            Workbook (XLSX)
+          </button>
+          )}
+          {hasPermission(user, Permission.EXPORT_DATA) && (
+          <button 
+            onClick={handlePrintReport}
+            className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold hover:bg-blue-600 transition-colors shadow-sm"
+          >
+            Program Report (PDF)
+          </button>
+          )}
         </div>
       </div>
 
+      {syncReport && (syncReport.rejected.length > 0 || syncReport.warnings.length > 0) && (
+        <SyncReportPanel report={syncReport} />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
          <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
             <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Total Interns</p>
-            <p className="text-2xl font-black text-slate-900">{interns.length}</p>
+            <p className="text-2xl font-black text-slate-900">{cohortInterns.length}</p>
          </div>
          <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
             <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Active Today</p>
-            <p className="text-2xl font-black text-blue-600">{allActivities.filter(a => a.date === new Date().toISOString().split('T')[0]).length}</p>
+            <p className="text-2xl font-black text-blue-600">{allActivities.filter(a => !isWithdrawn(a) && a.date === programToday() && cohortInterns.some(i => i.internId === a.internId)).length}</p>
          </div>
          <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
             <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Cert. Eligible</p>
             <p className="text-2xl font-black text-green-600">
-                {interns.filter(i => getInternStats(i.internId).eligibility.isEligible).length}
+                {cohortInterns.filter(i => getInternStats(i).eligibility.isEligible).length}
             </p>
          </div>
       </div>
 
+      {cohortSummaries.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {cohortSummaries.map(({ cohort, members, eligible, atRisk, avgActiveDays }) => (
+            <button
+              key={cohort.id}
+              onClick={() => setCohortFilter(cohortFilter === cohort.id ? '' : cohort.id)}
+              className={`text-left bg-white p-6 rounded-xl border shadow-sm transition-colors ${cohortFilter === cohort.id ? 'border-blue-500 ring-2 ring-blue-100' : 'border-slate-200 hover:border-blue-300'}`}
+            >
+              <div className="flex justify-between items-start">
+                <p className="text-sm font-black text-slate-900">{cohort.name}</p>
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{getRuleSet(cohort.ruleSetId).name}</span>
+              </div>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mt-1">{cohort.startDate} → {cohort.endDate}</p>
+              <div className="grid grid-cols-4 gap-2 mt-4">
+                <CohortMetric label="Interns" value={members} />
+                <CohortMetric label="Eligible" value={eligible} accent="text-green-600" />
+                <CohortMetric label="At Risk" value={atRisk} accent="text-red-500" />
+                <CohortMetric label="Avg Days" value={avgActiveDays.toFixed(0)} />
+              </div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase mt-3">Mentors: {cohort.mentorIds.length > 0 ? cohort.mentorIds.join(', ') : 'Unassigned'}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(hasPermission(user, Permission.REVIEW_ACTIVITY) || hasPermission(user, Permission.APPROVE_LEAVE) || hasPermission(user, Permission.ISSUE_CERTIFICATE) || hasPermission(user, Permission.MANAGE_ROSTER)) && (
+        <div className="flex gap-2 border-b border-slate-200">
+          <TabButton active={view === 'roster'} onClick={() => setView('roster')} label="Intern Roster" />
+          {hasPermission(user, Permission.REVIEW_ACTIVITY) && (
+            <TabButton
+              active={view === 'review'}
+              onClick={() => setView('review')}
+              label={`Review Queue (${cohortActivities.filter(a => !isWithdrawn(a) && getReviewStatus(a) === ReviewStatus.PENDING).length})`}
+            />
+          )}
+          {hasPermission(user, Permission.APPROVE_LEAVE) && (
+            <TabButton
+              active={view === 'leave'}
+              onClick={() => setView('leave')}
+              label={`Leave & Holidays (${cohortLeave.filter(l => l.status === LeaveStatus.PENDING).length})`}
+            />
+          )}
+          {hasPermission(user, Permission.ISSUE_CERTIFICATE) && (
+            <TabButton active={view === 'certificates'} onClick={() => setView('certificates')} label="Certificates" />
+          )}
+          {hasPermission(user, Permission.MANAGE_ROSTER) && (
+            <TabButton active={view === 'manage'} onClick={() => setView('manage')} label="Manage Roster" />
+          )}
+        </div>
+      )}
+
+      {view === 'review' ? (
+        <ReviewQueue interns={cohortInterns} activities={cohortActivities} onReviewed={handleReviewed} />
+      ) : view === 'leave' ? (
+        <LeaveManager
+          interns={cohortInterns}
+          leaveRequests={cohortLeave}
+          holidays={holidays}
+          canManageHolidays={hasPermission(user, Permission.MANAGE_CONFIG)}
+          onLeaveDecided={handleLeaveDecided}
+          onHolidaysSaved={setHolidays}
+        />
+      ) : view === 'manage' ? (
+        <RosterManager interns={interns} cohorts={cohorts} onRosterSaved={handleRosterSaved} />
+      ) : view === 'certificates' ? (
+        <CertificateManager
+          interns={cohortInterns}
+          certificates={certificates}
+          getEligibility={(intern) => getInternStats(intern).eligibility}
+          onCertificateSaved={handleCertificateSaved}
+        />
+      ) : (
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div className="relative flex-1 max-w-md">
@@ -124,7 +333,18 @@ const AdminDashboard: React.FC = () => {
                onChange={(e) => setSearchTerm(e.target.value)}
              />
           </div>
-          <p className="text-xs font-bold text-slate-500 uppercase">Showing {filteredInterns.length} Interns</p>
+          <div className="flex items-center gap-4">
+            <select
+              className="py-2 px-3 border border-slate-300 rounded-lg bg-white text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={cohortFilter}
+              onChange={(e) => setCohortFilter(e.target.value)}
+            >
+              <option value="">All Cohorts</option>
+              {cohorts.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              <option value={UNASSIGNED}>Unassigned</option>
+            </select>
+            <p className="text-xs font-bold text-slate-500 uppercase">Showing {filteredInterns.length} Interns</p>
+          </div>
         </div>
 
         <div className="overflow-x-auto">
@@ -140,33 +360,41 @@ const AdminDashboard: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-slate-100">
               {filteredInterns.map((intern) => {
-                const { stats, eligibility } = getInternStats(intern.internId);
-                const progress = Math.min((stats.totalActiveDays / CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE) * 100, 100);
+                const { stats, eligibility } = getInternStats(intern);
+                const ruleSet = getRuleSet(eligibility.ruleSetId);
+                const minDays = getRequirement(ruleSet, 'minActiveDays', CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE);
+                const maxGap = getRequirement(ruleSet, 'maxGapDays', CONFIG.PROGRAM_SETTINGS.MAX_ALLOWED_GAP_DAYS);
+                const progress = Math.min((stats.totalActiveDays / minDays) * 100, 100);
                 
                 return (
-                  <tr key={intern.id} className="hover:bg-slate-50 transition-colors">
+                  <tr key={intern.id} onClick={() => setSelectedInternId(intern.internId)} className="hover:bg-slate-50 transition-colors cursor-pointer">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-bold text-slate-900">{intern.name}</div>
                       <div className="text-xs text-slate-500">{intern.internId} • {intern.email}</div>
+                      <div className="text-[10px] font-bold text-blue-600 uppercase mt-0.5">{getCohort(intern)?.name || 'No Cohort'}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="w-24 h-2 bg-slate-100 rounded-full overflow-hidden">
                         <div className={`h-full ${eligibility.isEligible ? 'bg-green-500' : 'bg-blue-500'}`} style={{ width: `${progress}%` }} />
                       </div>
-                      <div className="text-[10px] font-bold text-slate-400 mt-1 uppercase">{stats.totalActiveDays} / {CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE} Days</div>
+                      <div className="text-[10px] font-bold text-slate-400 mt-1 uppercase">{stats.totalActiveDays} / {minDays} Days</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-xs font-bold text-slate-900">{stats.averageHours.toFixed(2)}h/day avg</div>
                       <div className="text-[10px] text-slate-500 font-bold uppercase">Consistency: {(100 - (eligibility.maxGapDays * 10)).toFixed(0)}%</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                       <div className={`text-xs font-bold ${eligibility.maxGapDays > CONFIG.PROGRAM_SETTINGS.MAX_ALLOWED_GAP_DAYS ? 'text-red-500' : 'text-slate-900'}`}>
+                       <div className={`text-xs font-bold ${eligibility.maxGapDays > maxGap ? 'text-red-500' : 'text-slate-900'}`}>
                           Max Gap: {eligibility.maxGapDays} days
                        </div>
+                       <div className="text-[10px] text-slate-500 font-bold uppercase">{eligibility.daysRemaining} days left</div>
+                       <div className="text-[10px] text-slate-400 font-bold uppercase">
+                         {eligibility.ruleResults.filter(r => r.passed).length}/{eligibility.ruleResults.length} rules • {ruleSet.name}
+                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border ${eligibility.isEligible ? 'bg-green-50 text-green-700 border-green-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>
-                        {eligibility.isEligible ? 'Eligible' : 'Pending'}
+                      <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border ${eligibility.isEligible ? 'bg-green-50 text-green-700 border-green-200' : eligibility.isTargetReachable ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+                        {eligibility.isEligible ? 'Eligible' : eligibility.isTargetReachable ? 'Pending' : 'Unreachable'}
                       </span>
                     </td>
                   </tr>
@@ -181,8 +409,25 @@ const AdminDashboard: React.FC = () => {
           </table>
         </div>
       </div>
+      )}
     </div>
   );
 };
 
+const TabButton = ({ active, onClick, label }: any) => (
+  <button
+    onClick={onClick}
+    className={`px-4 py-2 -mb-px border-b-2 text-xs font-bold uppercase tracking-widest transition-colors ${active ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+  >
+    {label}
+  </button>
+);
+
+const CohortMetric = ({ label, value, accent }: any) => (
+  <div>
+    <p className={`text-lg font-black ${accent || 'text-slate-900'}`}>{value}</p>
+    <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{label}</p>
+  </div>
+);
+
 export default AdminDashboard;
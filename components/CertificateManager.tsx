@@ -0,0 +1,149 @@
+
+import React, { useState } from 'react';
+import { User, Certificate, EligibilityResult } from '../types';
+import { api } from '../services/apiService';
+import { buildCertificateHtml, verificationUrl } from '../utils/certificate';
+import { printHtml } from '../utils/download';
+import { toProgramDate } from '../utils/dates';
+
+interface CertificateManagerProps {
+  interns: User[];
+  certificates: Certificate[];
+  getEligibility: (intern: User) => EligibilityResult;
+  onCertificateSaved: (certificate: Certificate) => void;
+}
+
+const CertificateManager: React.FC<CertificateManagerProps> = ({ interns, certificates, getEligibility, onCertificateSaved }) => {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState('');
+  const [error, setError] = useState('');
+
+  const internIds = new Set(interns.map(i => i.internId));
+  const scoped = certificates
+    .filter(c => internIds.has(c.internId))
+    .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  const holders = new Set(scoped.filter(c => !c.revokedAt).map(c => c.internId));
+  const awaiting = interns.filter(i => !holders.has(i.internId) && getEligibility(i).isEligible);
+
+  const run = async (id: string, action: () => Promise<Certificate>, fallback: string) => {
+    setBusyId(id);
+    setError('');
+    try {
+      onCertificateSaved(await action());
+    } catch (err: any) {
+      setError(err.message || fallback);
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const handlePrint = (certificate: Certificate) => {
+    try {
+      printHtml(buildCertificateHtml(certificate, verificationUrl(certificate.code)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <h3 className="font-bold text-slate-900">Issued Certificates</h3>
+          <p className="text-xs font-bold text-slate-500 uppercase">Newest First</p>
+        </div>
+
+        {error && (
+          <div className="m-4 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-xs font-bold">{error}</div>
+        )}
+
+        <div className="divide-y divide-slate-100">
+          {scoped.map(cert => (
+            <div key={cert.id} className="p-6 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <div className="text-sm font-bold text-slate-900">{cert.internName}</div>
+                  <div className="text-xs text-slate-500">
+                    {cert.internId} • {cert.startDate} → {cert.endDate} • {cert.activeDays} days • {cert.totalHours}h
+                  </div>
+                </div>
+                <span className={`w-fit px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border ${cert.revokedAt ? 'bg-red-50 text-red-700 border-red-200' : 'bg-green-50 text-green-700 border-green-200'}`}>
+                  {cert.revokedAt ? 'Revoked' : 'Valid'}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="font-mono font-bold text-slate-700 bg-slate-50 border border-slate-200 rounded px-2 py-1">{cert.code}</span>
+                <span className="text-slate-400">Issued {toProgramDate(cert.issuedAt)} by {cert.issuedBy}</span>
+              </div>
+              {cert.revokedAt ? (
+                <p className="text-xs text-slate-500 italic">
+                  Revoked {toProgramDate(cert.revokedAt)} by {cert.revokedBy}: "{cert.revocationReason}"
+                </p>
+              ) : (
+                <div className="flex flex-col md:flex-row gap-3">
+                  <input
+                    type="text"
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Reason (required to revoke)"
+                    value={reasons[cert.id] || ''}
+                    onChange={(e) => setReasons(prev => ({ ...prev, [cert.id]: e.target.value }))}
+                  />
+                  <div className="flex gap-2">
+                    <ActionButton label="Print" onClick={() => handlePrint(cert)} className="bg-slate-900 hover:bg-blue-600" />
+                    <ActionButton
+                      label="Revoke"
+                      disabled={busyId === cert.id}
+                      onClick={() => run(cert.id, () => api.revokeCertificate(cert.id, reasons[cert.id] || ''), 'Revocation failed.')}
+                      className="bg-red-600 hover:bg-red-700"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {scoped.length === 0 && (
+            <div className="px-6 py-12 text-center text-slate-400 italic">No certificates issued yet.</div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden h-fit">
+        <div className="p-4 border-b border-slate-200 bg-slate-50">
+          <h3 className="font-bold text-slate-900">Ready to Issue ({awaiting.length})</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">Eligible interns without a valid certificate</p>
+        </div>
+        <ul className="divide-y divide-slate-100">
+          {awaiting.map(intern => (
+            <li key={intern.internId} className="p-4 flex justify-between items-center gap-3">
+              <div>
+                <div className="text-sm font-bold text-slate-900">{intern.name}</div>
+                <div className="text-xs text-slate-500">{intern.internId} • {getEligibility(intern).activeDays} days</div>
+              </div>
+              <ActionButton
+                label="Issue"
+                disabled={busyId === intern.internId}
+                onClick={() => run(intern.internId, () => api.issueCertificate(intern.internId), 'Could not issue the certificate.')}
+                className="bg-blue-600 hover:bg-blue-700"
+              />
+            </li>
+          ))}
+          {awaiting.length === 0 && (
+            <li className="p-6 text-center text-xs text-slate-400 italic">Nobody is waiting for a certificate.</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+const ActionButton = ({ label, onClick, disabled, className }: any) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-4 py-2 text-white rounded-lg text-xs font-bold uppercase tracking-widest transition-colors disabled:opacity-50 ${className}`}
+  >
+    {label}
+  </button>
+);
+
+export default CertificateManager;
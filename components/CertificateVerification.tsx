@@ -0,0 +1,118 @@
+
+import React, { useState, useEffect } from 'react';
+import { CertificateCheck, CertificateStatus } from '../types';
+import { api } from '../services/apiService';
+import { BrandLogo } from './Logo';
+import { toProgramDate } from '../utils/dates';
+
+interface CertificateVerificationProps {
+  initialCode?: string;
+  onExit: () => void;
+}
+
+const RESULT_STYLES: Record<CertificateStatus, { title: string; detail: string; className: string }> = {
+  'valid': { title: 'Certificate Verified', detail: 'This certificate was issued by the program and is in good standing.', className: 'bg-green-50 border-green-100 text-green-700' },
+  'revoked': { title: 'Certificate Revoked', detail: 'This certificate was issued but has since been revoked.', className: 'bg-red-50 border-red-100 text-red-700' },
+  'tampered': { title: 'Record Altered', detail: 'The stored record no longer matches what was issued. Contact the program office.', className: 'bg-red-50 border-red-100 text-red-700' },
+  'not-found': { title: 'No Such Certificate', detail: 'No certificate was issued with this code. Check it for typos.', className: 'bg-amber-50 border-amber-100 text-amber-700' }
+};
+
+const CertificateVerification: React.FC<CertificateVerificationProps> = ({ initialCode = '', onExit }) => {
+  const [code, setCode] = useState(initialCode);
+  const [result, setResult] = useState<CertificateCheck | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const verify = async (value: string) => {
+    if (!value.trim()) return;
+    setLoading(true);
+    setError('');
+    setResult(null);
+    try {
+      setResult(await api.verifyCertificate(value));
+    } catch (err: any) {
+      setError(err?.message || 'Verification service unavailable. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialCode) verify(initialCode);
+  }, [initialCode]);
+
+  const cert = result?.certificate;
+  const style = result ? RESULT_STYLES[result.status] : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 px-4 py-12">
+      <div className="max-w-md w-full flex flex-col items-center">
+        <div className="flex flex-col items-center mb-8 text-center w-full">
+          <BrandLogo size="lg" className="mb-6" />
+          <h2 className="text-4xl font-black text-slate-900 tracking-tighter leading-none">Verify Certificate</h2>
+          <p className="text-slate-400 font-bold text-[10px] uppercase tracking-[0.4em] mt-3">Public Verification</p>
+        </div>
+
+        <div className="w-full bg-white border border-slate-100 rounded-[40px] shadow-[0_40px_100px_-20px_rgba(0,0,0,0.1)] p-8 md:p-10 space-y-6">
+          <form onSubmit={(e) => { e.preventDefault(); verify(code); }} className="space-y-4">
+            <label className="block text-[10px] font-extrabold text-slate-400 uppercase tracking-widest ml-1">Verification Code</label>
+            <input
+              type="text"
+              required
+              autoFocus
+              className="w-full px-5 py-4 rounded-2xl border border-slate-100 focus:ring-4 focus:ring-blue-50 focus:border-blue-400 outline-none transition-all text-slate-900 font-mono font-black uppercase tracking-widest placeholder:text-slate-200 placeholder:font-sans placeholder:font-normal placeholder:tracking-normal"
+              placeholder="CIAL-XXXX-XXXX"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+            />
+            <button
+              type="submit"
+              disabled={loading || !code.trim()}
+              className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black text-[10px] uppercase tracking-[0.3em] hover:bg-blue-600 transition-all disabled:opacity-30"
+            >
+              {loading ? 'Checking...' : 'Verify'}
+            </button>
+          </form>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-xs font-bold">{error}</div>
+          )}
+
+          {style && (
+            <div className={`p-6 border rounded-3xl space-y-4 ${style.className}`}>
+              <div>
+                <p className="font-black uppercase tracking-widest text-xs">{style.title}</p>
+                <p className="text-xs font-bold mt-1 opacity-80">{style.detail}</p>
+              </div>
+              {cert && (
+                <dl className="grid grid-cols-2 gap-3 text-slate-700">
+                  <Fact label="Awarded To" value={cert.internName} wide />
+                  {cert.cohortName && <Fact label="Cohort" value={cert.cohortName} wide />}
+                  <Fact label="From" value={cert.startDate} />
+                  <Fact label="To" value={cert.endDate} />
+                  <Fact label="Active Days" value={cert.activeDays} />
+                  <Fact label="Hours" value={cert.totalHours} />
+                  <Fact label="Issued" value={toProgramDate(cert.issuedAt)} />
+                  {cert.revokedAt && <Fact label="Revoked" value={toProgramDate(cert.revokedAt)} />}
+                </dl>
+              )}
+            </div>
+          )}
+        </div>
+
+        <button onClick={onExit} className="mt-8 text-[10px] font-extrabold text-slate-300 hover:text-blue-500 transition-colors uppercase tracking-[0.2em]">
+          Back to the Tracker
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const Fact = ({ label, value, wide }: any) => (
+  <div className={wide ? 'col-span-2' : ''}>
+    <dt className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</dt>
+    <dd className="text-sm font-bold text-slate-900">{value}</dd>
+  </div>
+);
+
+export default CertificateVerification;
@@ -0,0 +1,183 @@
+
+import React, { useState } from 'react';
+import { User, Activity, Cohort, ReviewStatus } from '../types';
+import { getReviewStatus, isWithdrawn } from '../utils/logic';
+import { toCSV } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { programToday } from '../utils/dates';
+import {
+  InternSummary, ActivityRow, ExportColumn, EligibilityStatus,
+  SUMMARY_COLUMNS, ACTIVITY_COLUMNS, buildTable, getEligibilityStatus, summarizeRange
+} from '../utils/reportData';
+
+export const UNASSIGNED = '__unassigned__';
+const ELIGIBILITY_STATUSES: EligibilityStatus[] = ['Eligible', 'Pending', 'Unreachable'];
+
+interface ExportDialogProps {
+  interns: User[];
+  cohorts: Cohort[];
+  activities: Activity[];
+  summarize: (intern: User) => InternSummary;
+  initialCohortId?: string;
+  onClose: () => void;
+}
+
+type ExportMode = 'summary' | 'activities';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ interns, cohorts, activities, summarize, initialCohortId = '', onClose }) => {
+  const [mode, setMode] = useState<ExportMode>('summary');
+  const [selected, setSelected] = useState<Record<ExportMode, string[]>>({
+    summary: SUMMARY_COLUMNS.map(c => c.key),
+    activities: ACTIVITY_COLUMNS.map(c => c.key)
+  });
+  const [cohortFilter, setCohortFilter] = useState(initialCohortId);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [bom, setBom] = useState(true);
+
+  const columns: ExportColumn<any>[] = mode === 'summary' ? SUMMARY_COLUMNS : ACTIVITY_COLUMNS;
+  const chosen = columns.filter(c => selected[mode].includes(c.key));
+
+  const cohortOf = (intern?: User) => cohorts.find(c => c.id === intern?.cohortId);
+  const scopedInterns = interns.filter(i =>
+    !cohortFilter || (cohortFilter === UNASSIGNED ? !cohortOf(i) : i.cohortId === cohortFilter)
+  );
+
+  const buildRows = (): InternSummary[] | ActivityRow[] => {
+    if (mode === 'summary') {
+      return scopedInterns
+        .map(intern => summarizeRange(summarize(intern), activities.filter(a => a.internId === intern.internId), from, to))
+        .filter(s => !statusFilter || getEligibilityStatus(s.eligibility) === statusFilter);
+    }
+    const byId = new Map<string, User>(scopedInterns.map(i => [i.internId, i]));
+    return activities
+      .filter(a => byId.has(a.internId))
+      .filter(a => (!from || a.date >= from) && (!to || a.date <= to))
+      .filter(a => !statusFilter || (statusFilter === 'withdrawn' ? isWithdrawn(a) : !isWithdrawn(a) && getReviewStatus(a) === statusFilter))
+      .sort((a, b) => a.internId.localeCompare(b.internId) || a.date.localeCompare(b.date))
+      .map(activity => ({ activity, intern: byId.get(activity.internId), cohort: cohortOf(byId.get(activity.internId)) }));
+  };
+
+  const rows = buildRows();
+
+  const handleExport = () => {
+    const { headers, values } = buildTable(chosen, rows as any[]);
+    const name = mode === 'summary' ? 'intern_report' : 'activity_export';
+    downloadFile(toCSV(headers, values, { bom }), `${name}_${programToday()}.csv`, 'text/csv;charset=utf-8;');
+    onClose();
+  };
+
+  const toggleColumn = (key: string) => {
+    setSelected(prev => ({
+      ...prev,
+      [mode]: prev[mode].includes(key) ? prev[mode].filter(k => k !== key) : [...prev[mode], key]
+    }));
+  };
+
+  const switchMode = (next: ExportMode) => {
+    setMode(next);
+    setStatusFilter('');
+  };
+
+  const inputClass = "w-full py-2 px-3 border border-slate-300 rounded-lg bg-white text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-900">Export Data (CSV)</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex gap-2">
+            <ModeButton active={mode === 'summary'} onClick={() => switchMode('summary')} label="Per-Intern Summary" />
+            <ModeButton active={mode === 'activities'} onClick={() => switchMode('activities')} label="Raw Activity Rows" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label="Cohort">
+              <select className={inputClass} value={cohortFilter} onChange={(e) => setCohortFilter(e.target.value)}>
+                <option value="">All Cohorts</option>
+                {cohorts.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                <option value={UNASSIGNED}>Unassigned</option>
+              </select>
+            </Field>
+            <Field label="Status">
+              <select className={inputClass} value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)}>
+                <option value="">Any Status</option>
+                {mode === 'summary'
+                  ? ELIGIBILITY_STATUSES.map(s => <option key={s} value={s}>{s}</option>)
+                  : [...Object.values(ReviewStatus), 'withdrawn'].map(s => <option key={s} value={s}>{s.replace('-', ' ')}</option>)}
+              </select>
+            </Field>
+            <Field label="From">
+              <input type="date" className={inputClass} value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </Field>
+            <Field label="To">
+              <input type="date" className={inputClass} value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            </Field>
+          </div>
+          {mode === 'summary' && (from || to) && (
+            <p className="text-[10px] font-bold text-slate-400 uppercase">
+              Active days, hours and submissions cover the date range; eligibility columns cover the whole program.
+            </p>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Columns</p>
+              <div className="flex gap-3 text-[10px] font-bold uppercase">
+                <button onClick={() => setSelected(prev => ({ ...prev, [mode]: columns.map(c => c.key) }))} className="text-blue-600 hover:underline">All</button>
+                <button onClick={() => setSelected(prev => ({ ...prev, [mode]: [] }))} className="text-slate-400 hover:underline">None</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {columns.map(c => (
+                <label key={c.key} className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+                  <input type="checkbox" checked={selected[mode].includes(c.key)} onChange={() => toggleColumn(c.key)} />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={bom} onChange={(e) => setBom(e.target.checked)} />
+            Excel-friendly (UTF-8 byte-order mark)
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 bg-slate-50 flex justify-between items-center">
+          <p className="text-xs font-bold text-slate-500 uppercase">{rows.length} rows • {chosen.length} columns</p>
+          <button
+            onClick={handleExport}
+            disabled={chosen.length === 0 || rows.length === 0}
+            className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Download CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ModeButton = ({ active, onClick, label }: any) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors ${active ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+  >
+    {label}
+  </button>
+);
+
+const Field = ({ label, children }: any) => (
+  <div>
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{label}</p>
+    {children}
+  </div>
+);
+
+export default ExportDialog;
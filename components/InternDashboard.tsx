@@ -1,10 +1,22 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { User, Activity, Statistics, EligibilityResult } from '../types';
+import { User, Activity, Cohort, Statistics, EligibilityResult, ReviewStatus, LeaveRequest, Holiday, WorkSession, Certificate } from '../types';
 import { api } from '../services/apiService';
-import { calculateStats, calculateEligibility } from '../utils/logic';
+import { calculateStats, calculateInternEligibility, getReviewStatus, getApprovedLeaveDates, getOpenSubmissionDates, isWithdrawn, isWithinEditWindow } from '../utils/logic';
+import { getRuleSet, getRequirement } from '../utils/rules';
 import SubmissionForm from './SubmissionForm';
+import ActivityCalendar from './ActivityCalendar';
+import LeaveRequestPanel from './LeaveRequestPanel';
+import ActivityEditor from './ActivityEditor';
+import WorkTimerPanel from './WorkTimerPanel';
+import { WorkTimer } from '../services/workTimer';
+import { exceedsTrackedTime } from '../utils/sessions';
+import RevisionHistory from './RevisionHistory';
+import QualityFeedback from './QualityFeedback';
 import { CONFIG } from '../services/config';
+import { buildCertificateHtml, verificationUrl } from '../utils/certificate';
+import { printHtml } from '../utils/download';
+import { programToday, formatDate } from '../utils/dates';
 
 interface InternDashboardProps {
   user: User;
@@ -28,10 +40,27 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
 
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [cohort, setCohort] = useState<Cohort | undefined>(undefined);
+  const [unsynced, setUnsynced] = useState(() => api.getUnsyncedSubmissions(internIdClean));
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [editingId, setEditingId] = useState('');
+  const [timerSessions, setTimerSessions] = useState<WorkSession[] | undefined>(undefined);
+  const [timerDate, setTimerDate] = useState<string | undefined>(undefined);
+  const [timerMinutes, setTimerMinutes] = useState<number | undefined>(undefined);
+  const [justSubmitted, setJustSubmitted] = useState<Activity | null>(null);
+  const timer = useMemo(() => new WorkTimer(internIdClean), [internIdClean]);
   const isMounted = useRef(false);
 
+  const leaveDates = useMemo(() => getApprovedLeaveDates(internIdClean, leaveRequests), [internIdClean, leaveRequests]);
   const stats = useMemo(() => calculateStats(activities), [activities]);
-  const eligibility = useMemo(() => calculateEligibility(activities, user.joiningDate), [activities, user.joiningDate]);
+  const eligibility = useMemo(
+    () => calculateInternEligibility(user, activities, cohort, { excusedDates: leaveDates, holidayDates: holidays.map(h => h.date) }),
+    [activities, user, cohort, leaveDates, holidays]
+  );
+
+  const certificate = certificates.find(c => !c.revokedAt);
 
   useEffect(() => {
     isMounted.current = true;
@@ -39,6 +68,29 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
     return () => { isMounted.current = false; };
   }, [internIdClean]);
 
+  useEffect(() => {
+    if (!user.cohortId) return;
+    api.getCohorts()
+      .then(list => { if (isMounted.current) setCohort(list.find(c => c.id === user.cohortId)); })
+      .catch(() => console.warn("Cohort lookup failed."));
+  }, [user.cohortId]);
+
+  useEffect(() => {
+    Promise.all([api.getLeaveRequests(internIdClean), api.getHolidays(), api.getCertificates(internIdClean)])
+      .then(([requests, days, certs]) => {
+        if (!isMounted.current) return;
+        setLeaveRequests(requests);
+        setHolidays(days);
+        setCertificates(certs);
+      })
+      .catch(() => console.warn("Leave lookup failed."));
+  }, [internIdClean]);
+
+  useEffect(() => {
+    setUnsynced(api.getUnsyncedSubmissions(internIdClean));
+    return api.onSyncChange(() => setUnsynced(api.getUnsyncedSubmissions(internIdClean)));
+  }, [internIdClean]);
+
   useEffect(() => {
     if (activities.length > 0) {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(activities));
@@ -50,13 +102,15 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
     else setSyncing(true);
     
     try {
+      if (!showLoading) await api.retrySync();
       const cloudData = await api.getActivities(internIdClean);
       if (isMounted.current && cloudData.length > 0) {
         setActivities(prev => {
           const uniqueMap = new Map();
+          // Cloud copies win so review decisions replace the locally cached entry
           [...prev, ...cloudData].forEach(item => {
             const key = item.id || `${item.internId}_${item.date}`;
-            if (!uniqueMap.has(key)) uniqueMap.set(key, item);
+            uniqueMap.set(key, item);
           });
           return Array.from(uniqueMap.values()).sort((a, b) => b.date.localeCompare(a.date));
         });
@@ -72,16 +126,30 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
   };
 
   const handleSubmissionSuccess = (newAct: Activity) => {
+    // Today's tracked time has been claimed; start tomorrow from zero. An earlier day only clears itself
+    if (newAct.date === programToday() && typeof newAct.trackedMinutes === 'number') timer.reset();
+    timer.clearDay(newAct.date);
+    setTimerSessions(undefined);
+    setTimerDate(undefined);
+    setTimerMinutes(undefined);
+    setJustSubmitted(newAct);
     setActivities(prev => {
-      if (prev.some(a => a.date === newAct.date)) return prev;
+      if (prev.some(a => a.date === newAct.date && !isWithdrawn(a))) return prev;
       const updated = [newAct, ...prev].sort((a, b) => b.date.localeCompare(a.date));
       localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
       return updated;
     });
   };
 
-  const todayStr = new Date().toLocaleDateString('en-CA');
-  const hasSubmittedToday = activities.some(a => a.date === todayStr);
+  const handleEdited = (updated: Activity) => {
+    setActivities(prev => prev.map(a => a.id === updated.id ? updated : a));
+    setEditingId('');
+  };
+
+  const flaggedCount = activities.filter(a => !isWithdrawn(a) && [ReviewStatus.REJECTED, ReviewStatus.NEEDS_REVISION].includes(getReviewStatus(a))).length;
+
+  const todayStr = programToday();
+  const openDates = getOpenSubmissionDates(activities, todayStr);
 
   if (loading) return (
     <div className="min-h-[400px] flex flex-col items-center justify-center gap-4">
@@ -90,8 +158,10 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
     </div>
   );
 
-  const minDaysGoal = CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE;
-  const minHoursGoal = CONFIG.PROGRAM_SETTINGS.MIN_HOURS_PER_DAY;
+  const ruleSet = getRuleSet(eligibility.ruleSetId);
+  const minDaysGoal = getRequirement(ruleSet, 'minActiveDays', CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE);
+  const minHoursGoal = getRequirement(ruleSet, 'minAverageHours', CONFIG.PROGRAM_SETTINGS.MIN_HOURS_PER_DAY);
+  const maxGapGoal = getRequirement(ruleSet, 'maxGapDays', CONFIG.PROGRAM_SETTINGS.MAX_ALLOWED_GAP_DAYS);
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-1000">
@@ -99,10 +169,19 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
         <div>
           <h2 className="text-4xl font-black text-slate-900 tracking-tighter">Dashboard</h2>
           <p className="text-slate-500 font-semibold mt-1">
-            <span className="text-blue-600">ID: {internIdClean}</span> — {user.name}
+            <span className="text-blue-600">ID: {internIdClean}</span> — {user.name}{cohort && <> • {cohort.name}</>}
           </p>
         </div>
         <div className="flex gap-3">
+            {unsynced.length > 0 && (
+              <div
+                title={unsynced.map(i => `${i.activity.date}: ${i.status}${i.lastError ? ` (${i.lastError})` : ''}`).join('\n')}
+                className={`px-6 py-3 rounded-[20px] border flex items-center gap-3 text-[10px] font-black uppercase tracking-widest ${unsynced.some(i => i.status === 'failed') ? 'bg-red-50 border-red-200 text-red-600' : 'bg-amber-50 border-amber-200 text-amber-600'}`}
+              >
+                <div className={`w-2 h-2 rounded-full ${unsynced.some(i => i.status === 'failed') ? 'bg-red-500' : 'bg-amber-400 animate-pulse'}`}></div>
+                {unsynced.length} {unsynced.length === 1 ? 'Entry' : 'Entries'} Not Yet Synced
+              </div>
+            )}
             <button 
               onClick={() => fetchData(false)}
               disabled={syncing}
@@ -130,15 +209,25 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
             title="Eligibility" 
             value={eligibility.isEligible ? "READY" : "PENDING"} 
             icon="🎓" 
-            subText={eligibility.isEligible ? "Qualified" : "Awaiting Milestones"}
-            accent={eligibility.isEligible ? "text-green-600" : "text-amber-500"}
+            subText={eligibility.isEligible ? "Qualified" : eligibility.isTargetReachable ? `${eligibility.daysRemaining} Days Left` : "Target Unreachable"}
+            accent={eligibility.isEligible ? "text-green-600" : eligibility.isTargetReachable ? "text-amber-500" : "text-red-500"}
         />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 space-y-8">
-          {!hasSubmittedToday ? (
-            <SubmissionForm user={user} onSuccess={handleSubmissionSuccess} />
+          {justSubmitted && justSubmitted.quality && (
+            <div className="bg-white p-10 rounded-[48px] shadow-sm border border-blue-200 space-y-6">
+              <div className="flex justify-between items-center">
+                <h3 className="font-black text-slate-900 uppercase tracking-widest text-xs">Entry for {formatDate(justSubmitted.date, { month: 'long', day: 'numeric' }, 'en-US')} Received</h3>
+                <button onClick={() => setJustSubmitted(null)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600">Dismiss</button>
+              </div>
+              <QualityFeedback activity={justSubmitted} />
+            </div>
+          )}
+
+          {openDates.length > 0 ? (
+            <SubmissionForm user={user} onSuccess={handleSubmissionSuccess} openDates={openDates} timer={timer} prefill={timerSessions} prefillDate={timerDate} prefillTrackedMinutes={timerMinutes} />
           ) : (
             <div className="bg-white border border-green-200 p-12 rounded-[48px] shadow-sm flex flex-col md:flex-row items-center gap-10">
               <div className="bg-green-600 p-8 rounded-[36px] text-white">
@@ -148,36 +237,106 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
               </div>
               <div className="flex-1">
                 <h4 className="text-3xl font-black text-slate-900 tracking-tight">Today Logged</h4>
-                <p className="text-slate-500 mt-2 font-bold text-base">You've successfully secured your record for {new Date(todayStr).toLocaleDateString()}.</p>
+                <p className="text-slate-500 mt-2 font-bold text-base">You've successfully secured your record for {formatDate(todayStr)}.</p>
               </div>
             </div>
           )}
 
+          <div className="bg-white p-12 rounded-[48px] shadow-sm border border-slate-200">
+            <div className="flex justify-between items-center mb-8">
+              <h3 className="font-black text-slate-900 uppercase tracking-widest text-xs">Consistency Calendar</h3>
+              <span className={`text-[10px] font-black uppercase tracking-widest ${eligibility.maxGapDays > maxGapGoal ? 'text-red-500' : 'text-slate-400'}`}>
+                Worst Gap: {eligibility.maxGapDays} / {maxGapGoal} Days
+              </span>
+            </div>
+            <ActivityCalendar
+              start={eligibility.windowStart}
+              end={eligibility.windowEnd}
+              activities={activities.filter(a => !isWithdrawn(a))}
+              gaps={eligibility.gaps}
+              maxAllowedGap={maxGapGoal}
+              excusedDates={leaveDates}
+              holidays={holidays}
+              todayStr={todayStr}
+            />
+          </div>
+
           <div className="bg-white rounded-[48px] shadow-sm border border-slate-200 overflow-hidden">
             <div className="px-12 py-10 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
               <h3 className="font-black text-slate-900 uppercase tracking-widest text-xs">Official Activity Vault</h3>
-              <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">{activities.length} Records Saved</span>
+              <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">{activities.filter(a => !isWithdrawn(a)).length} Records Saved</span>
             </div>
+            {flaggedCount > 0 && (
+              <div className="px-12 py-6 bg-red-50 border-b border-red-100 text-[11px] font-black uppercase tracking-widest text-red-600">
+                {flaggedCount} {flaggedCount === 1 ? 'entry was' : 'entries were'} sent back by a reviewer — see the notes below
+              </div>
+            )}
             <div className="divide-y divide-slate-100">
               {activities.map((activity) => (
-                <div key={activity.id} className="p-12 hover:bg-slate-50 transition-all border-l-4 border-l-transparent hover:border-l-blue-600">
+                <div key={activity.id} className={`p-12 hover:bg-slate-50 transition-all border-l-4 border-l-transparent hover:border-l-blue-600 ${isWithdrawn(activity) ? 'opacity-50' : ''}`}>
                   <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8">
                     <div className="flex items-center gap-6">
                       <div className="w-16 h-16 rounded-[24px] bg-white border border-slate-200 flex flex-col items-center justify-center text-slate-800 shadow-sm">
-                        <span className="text-xl font-black">{new Date(activity.date).getDate()}</span>
-                        <span className="text-[10px] font-black uppercase tracking-tighter text-blue-600">{new Date(activity.date).toLocaleDateString('en-US', { month: 'short' })}</span>
+                        <span className="text-xl font-black">{formatDate(activity.date, { day: 'numeric' }, 'en-US')}</span>
+                        <span className="text-[10px] font-black uppercase tracking-tighter text-blue-600">{formatDate(activity.date, { month: 'short' }, 'en-US')}</span>
                       </div>
-                      <span className="text-xl font-black text-slate-900">{new Date(activity.date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}</span>
+                      <span className="text-xl font-black text-slate-900">{formatDate(activity.date, { month: 'long', day: 'numeric' }, 'en-US')}</span>
                     </div>
                     <div className="flex gap-4">
+                      {isWithdrawn(activity) ? (
+                        <span className="px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border bg-slate-100 text-slate-500 border-slate-200">Withdrawn</span>
+                      ) : (
+                        <span className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border ${REVIEW_BADGES[getReviewStatus(activity)]}`}>
+                          {getReviewStatus(activity).replace('-', ' ')}
+                        </span>
+                      )}
+                      {!isWithdrawn(activity) && isWithinEditWindow(activity) && !unsynced.some(i => i.activity.id === activity.id) && editingId !== activity.id && (
+                        <button
+                          onClick={() => setEditingId(activity.id)}
+                          className="px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-slate-200 text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-all"
+                        >
+                          Edit
+                        </button>
+                      )}
                       <span className="px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-slate-900 text-white">
                         {activity.hours}h Logged
                       </span>
+                      {exceedsTrackedTime(activity) && (
+                        <span className="px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border bg-red-50 text-red-600 border-red-200" title={`Timer tracked ${activity.trackedMinutes} minutes`}>Over Tracked</span>
+                      )}
+                      {activity.isLate && (
+                        <span className="px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest border bg-amber-50 text-amber-600 border-amber-200">Late</span>
+                      )}
                     </div>
                   </div>
-                  <div className="bg-slate-50 border border-slate-100 rounded-[32px] p-8 text-sm text-slate-600 leading-relaxed font-semibold">
-                    {activity.description}
-                  </div>
+                  {editingId === activity.id ? (
+                    <ActivityEditor activity={activity} onSaved={handleEdited} onCancel={() => setEditingId('')} />
+                  ) : (
+                    <div className="bg-slate-50 border border-slate-100 rounded-[32px] p-8 text-sm text-slate-600 leading-relaxed font-semibold">
+                      {activity.description}
+                    </div>
+                  )}
+                  {!isWithdrawn(activity) && activity.quality && activity.id !== justSubmitted?.id && (
+                    <div className="mt-6">
+                      <QualityFeedback activity={activity} />
+                    </div>
+                  )}
+                  {activity.revisions && activity.revisions.length > 0 && (
+                    <details className="mt-6">
+                      <summary className="text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+                        History ({activity.revisions.length})
+                      </summary>
+                      <div className="mt-4">
+                        <RevisionHistory revisions={activity.revisions} />
+                      </div>
+                    </details>
+                  )}
+                  {activity.review?.comment && !isWithdrawn(activity) && getReviewStatus(activity) !== ReviewStatus.APPROVED && (
+                    <div className="mt-6 bg-red-50 border border-red-100 rounded-[24px] p-6 text-sm text-red-700 font-semibold">
+                      <span className="block text-[10px] font-black uppercase tracking-widest mb-2">Reviewer Note</span>
+                      {activity.review.comment}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -185,6 +344,31 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
         </div>
 
         <div className="space-y-8">
+          {certificate ? (
+            <div className="bg-green-600 text-white p-12 rounded-[48px] shadow-xl space-y-6">
+              <h3 className="font-black uppercase tracking-[0.3em] text-xs">Certificate Issued</h3>
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-green-200">Verification Code</p>
+                <p className="text-2xl font-black tracking-widest font-mono mt-2">{certificate.code}</p>
+              </div>
+              <button
+                onClick={() => {
+                  try { printHtml(buildCertificateHtml(certificate, verificationUrl(certificate.code))); }
+                  catch (err: any) { window.alert(err.message); }
+                }}
+                className="w-full py-4 bg-white text-green-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-green-50 transition-all active:scale-95"
+              >
+                Print Certificate
+              </button>
+            </div>
+          ) : eligibility.isEligible && (
+            <div className="bg-green-50 border border-green-100 p-8 rounded-[48px] text-[10px] font-black uppercase tracking-widest text-green-700">
+              Requirements met • Your certificate is awaiting issuance
+            </div>
+          )}
+
+          <WorkTimerPanel timer={timer} onUse={(sessions, minutes, date) => { setTimerSessions(sessions); setTimerMinutes(minutes); setTimerDate(date); }} />
+
           <div className="bg-white p-12 rounded-[48px] shadow-sm border border-slate-200">
             <h3 className="font-black text-slate-900 mb-12 flex items-center gap-4 text-xs uppercase tracking-[0.3em]">Compliance Check</h3>
             <div className="space-y-12">
@@ -192,19 +376,45 @@ const InternDashboard: React.FC<InternDashboardProps> = ({ user }) => {
                <ProgressBar label="Mean Daily Effort" current={stats.averageHours} target={minHoursGoal} unit="h" />
                <div className="pt-12 border-t border-slate-100">
                   <ul className="space-y-6">
-                    <CheckItem label={`${minDaysGoal} Active Days`} checked={stats.totalActiveDays >= minDaysGoal} />
-                    <CheckItem label={`High Intensity (Avg ≥ ${minHoursGoal}h)`} checked={stats.averageHours >= minHoursGoal} />
-                    <CheckItem label="Consistent (Gap ≤ 3 Days)" checked={eligibility.maxGapDays <= 3 && activities.length > 0} />
+                    {eligibility.ruleResults.map((result, idx) => (
+                      <CheckItem
+                        key={idx}
+                        label={result.label}
+                        detail={result.notApplicable ? 'Nothing scored yet' : `Now: ${Number.isInteger(result.measured) ? result.measured : result.measured.toFixed(1)}`}
+                        checked={result.passed && activities.length > 0}
+                      />
+                    ))}
                   </ul>
+                  <p className="mt-10 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    Program Window: {eligibility.windowStart} → {eligibility.windowEnd} • {eligibility.daysRemaining} Days Remaining
+                  </p>
+                  {!eligibility.isEligible && !eligibility.isTargetReachable && (
+                    <p className="mt-4 text-[10px] font-black uppercase tracking-widest text-red-500">
+                      {eligibility.reasons[eligibility.reasons.length - 1]}
+                    </p>
+                  )}
                </div>
             </div>
           </div>
+
+          <LeaveRequestPanel
+            requests={leaveRequests}
+            holidays={holidays}
+            onCreated={(request) => setLeaveRequests(prev => [...prev, request])}
+          />
         </div>
       </div>
     </div>
   );
 };
 
+const REVIEW_BADGES: Record<ReviewStatus, string> = {
+  [ReviewStatus.PENDING]: 'bg-white text-slate-400 border-slate-200',
+  [ReviewStatus.APPROVED]: 'bg-green-50 text-green-600 border-green-200',
+  [ReviewStatus.REJECTED]: 'bg-red-50 text-red-600 border-red-200',
+  [ReviewStatus.NEEDS_REVISION]: 'bg-amber-50 text-amber-600 border-amber-200'
+};
+
 const StatCard = ({ title, value, icon, subText, accent }: any) => (
   <div className="bg-white p-12 rounded-[48px] shadow-sm border border-slate-200 hover:border-blue-400 transition-all group">
     <div className="flex justify-between items-start mb-10">
@@ -234,12 +444,13 @@ const ProgressBar = ({ label, current, target, unit = '' }: any) => {
     );
 };
 
-const CheckItem = ({ label, checked }: any) => (
+const CheckItem = ({ label, detail, checked }: any) => (
     <li className="flex items-center gap-5 text-[11px] font-black uppercase tracking-[0.2em]">
         <div className={`w-7 h-7 rounded-2xl flex items-center justify-center text-white ${checked ? 'bg-green-500 shadow-lg' : 'bg-slate-200'}`}>
             {checked && <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>}
         </div>
         <span className={checked ? 'text-slate-900' : 'text-slate-400 opacity-60'}>{label}</span>
+        {detail && <span className="ml-auto text-[10px] text-slate-300 tracking-widest">{detail}</span>}
     </li>
 );
 
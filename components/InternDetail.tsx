@@ -0,0 +1,255 @@
+
+import React, { useState } from 'react';
+import { User, Activity, Cohort, ActivityCategory, EligibilityResult, LeaveRequest, LeaveStatus, Holiday } from '../types';
+import { getReviewStatus, getApprovedLeaveDates, isWithdrawn } from '../utils/logic';
+import { getRuleSet, getRequirement } from '../utils/rules';
+import { categoryHours, formatMinutes, sessionMinutes, exceedsTrackedTime } from '../utils/sessions';
+import { CONFIG } from '../services/config';
+import { QUALITY_RUBRIC, isScoringFailed, isSuspicious } from '../utils/quality';
+import { isSuspectedCopy } from '../utils/similarity';
+import ActivityCalendar from './ActivityCalendar';
+import ActivityEditor from './ActivityEditor';
+import RevisionHistory from './RevisionHistory';
+
+interface InternDetailProps {
+  intern: User;
+  cohort?: Cohort;
+  activities: Activity[];
+  eligibility: EligibilityResult;
+  leaveRequests?: LeaveRequest[];
+  holidays?: Holiday[];
+  canEdit?: boolean;
+  onActivityUpdated?: (updated: Activity) => void;
+  onClose: () => void;
+}
+
+const InternDetail: React.FC<InternDetailProps> = ({ intern, cohort, activities: allEntries, eligibility, leaveRequests = [], holidays = [], canEdit = false, onActivityUpdated, onClose }) => {
+  const [editingId, setEditingId] = useState('');
+  const activities = allEntries.filter(a => !isWithdrawn(a));
+  const ruleSet = getRuleSet(eligibility.ruleSetId);
+  const maxAllowedGap = getRequirement(ruleSet, 'maxGapDays', CONFIG.PROGRAM_SETTINGS.MAX_ALLOWED_GAP_DAYS);
+  const timeline = [...allEntries].sort((a, b) => b.date.localeCompare(a.date));
+  const breachingGaps = eligibility.gaps.filter(g => g.days > maxAllowedGap);
+  const leaveDates = getApprovedLeaveDates(intern.internId, leaveRequests);
+  const approvedLeave = leaveRequests.filter(l => l.status === LeaveStatus.APPROVED).sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const categoryBreakdown = Object.values(ActivityCategory).map(category => {
+    const entries = activities.map(a => ({ date: a.date, hours: categoryHours(a)[category] || 0 })).filter(e => e.hours > 0);
+    return {
+      category,
+      days: new Set(entries.map(e => e.date)).size,
+      hours: Math.round(entries.reduce((acc, e) => acc + e.hours, 0) * 100) / 100
+    };
+  });
+  const maxCategoryHours = Math.max(...categoryBreakdown.map(c => c.hours), 1);
+
+  const qualityPoints = [...activities]
+    .filter(a => typeof a.qualityScore === 'number')
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <button onClick={onClose} className="text-xs font-bold text-blue-600 uppercase tracking-widest hover:underline">← Back to Roster</button>
+          <h2 className="text-2xl font-bold text-slate-900 mt-2">{intern.name}</h2>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mt-1">
+            {intern.internId} • {intern.email} • {cohort?.name || 'No Cohort'} • {ruleSet.name}
+          </p>
+        </div>
+        <span className={`w-fit px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border ${eligibility.isEligible ? 'bg-green-50 text-green-700 border-green-200' : eligibility.isTargetReachable ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+          {eligibility.isEligible ? 'Eligible' : eligibility.isTargetReachable ? 'Pending' : 'Unreachable'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Panel title={`Activity Calendar • ${eligibility.windowStart} → ${eligibility.windowEnd}`} className="lg:col-span-2">
+          <ActivityCalendar
+            start={eligibility.windowStart}
+            end={eligibility.windowEnd}
+            activities={activities}
+            gaps={eligibility.gaps}
+            maxAllowedGap={maxAllowedGap}
+            excusedDates={leaveDates}
+            holidays={holidays}
+          />
+          {breachingGaps.length > 0 && (
+            <ul className="mt-4 space-y-1">
+              {breachingGaps.map(g => (
+                <li key={g.start} className="text-xs font-bold text-red-600">
+                  Gap of {g.days} days: {g.start} → {g.end}
+                </li>
+              ))}
+            </ul>
+          )}
+          {approvedLeave.length > 0 && (
+            <ul className="mt-4 space-y-1">
+              {approvedLeave.map(l => (
+                <li key={l.id} className="text-xs font-bold text-amber-600">
+                  Approved leave: {l.startDate} → {l.endDate} — {l.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Panel>
+
+        <Panel title="Eligibility Rules">
+          <ul className="space-y-2">
+            {eligibility.ruleResults.map((r, idx) => (
+              <li key={idx} className="flex items-center justify-between text-xs font-bold">
+                <span className={r.passed ? 'text-green-700' : 'text-red-600'}>{r.passed ? '✓' : '✗'} {r.label}</span>
+                <span className="text-slate-400">{r.notApplicable ? 'n/a' : Number.isInteger(r.measured) ? r.measured : r.measured.toFixed(1)}</span>
+              </li>
+            ))}
+          </ul>
+          {eligibility.reasons.length > 0 && (
+            <ul className="mt-4 pt-4 border-t border-slate-100 space-y-1">
+              {eligibility.reasons.map((reason, idx) => (
+                <li key={idx} className="text-xs text-slate-600">• {reason}</li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-4 text-[10px] font-bold text-slate-400 uppercase">{eligibility.daysRemaining} days remaining</p>
+        </Panel>
+
+        <Panel title="Category Breakdown">
+          <div className="space-y-3">
+            {categoryBreakdown.map(c => (
+              <div key={c.category}>
+                <div className="flex justify-between text-[10px] font-bold uppercase text-slate-500">
+                  <span>{c.category}</span>
+                  <span>{c.days}d • {c.hours}h</span>
+                </div>
+                <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden mt-1">
+                  <div className="h-full bg-blue-500" style={{ width: `${(c.hours / maxCategoryHours) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </Panel>
+
+        <Panel title="Quality Score Trend" className="lg:col-span-2">
+          {qualityPoints.length > 1 ? (
+            <QualityTrend points={qualityPoints.map(a => ({ date: a.date, score: a.qualityScore as number }))} />
+          ) : (
+            <p className="text-xs text-slate-400 italic">Not enough scored entries yet.</p>
+          )}
+        </Panel>
+      </div>
+
+      <Panel title={`Activity Timeline (${timeline.length})`}>
+        <div className="divide-y divide-slate-100">
+          {timeline.map(activity => (
+            <div key={activity.id} className={`py-4 flex flex-col md:flex-row gap-4 ${isWithdrawn(activity) ? 'opacity-50' : ''}`}>
+              <div className="md:w-40 shrink-0">
+                <div className="text-sm font-bold text-slate-900">{activity.date}</div>
+                <div className="text-[10px] font-bold text-slate-500 uppercase">{activity.category} • {activity.hours}h</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase">
+                  {isWithdrawn(activity) ? 'withdrawn' : getReviewStatus(activity).replace('-', ' ')}{activity.isLate ? ' • late' : ''}{typeof activity.qualityScore === 'number' ? ` • Q${activity.qualityScore}` : ''}{isScoringFailed(activity) ? ' • scoring failed' : ''}{isSuspicious(activity) ? ' • flagged' : ''}{isSuspectedCopy(activity) ? ' • suspected copy' : ''}
+                </div>
+                {exceedsTrackedTime(activity) && (
+                  <div className="text-[10px] font-bold text-red-600 uppercase">Over tracked ({formatMinutes(activity.trackedMinutes as number)})</div>
+                )}
+                {canEdit && !isWithdrawn(activity) && editingId !== activity.id && (
+                  <button onClick={() => setEditingId(activity.id)} className="mt-1 text-[10px] font-bold text-blue-600 uppercase hover:underline">Edit</button>
+                )}
+              </div>
+              <div className="flex-1 space-y-2">
+                {editingId === activity.id ? (
+                  <ActivityEditor
+                    activity={activity}
+                    onSaved={(updated) => { onActivityUpdated?.(updated); setEditingId(''); }}
+                    onCancel={() => setEditingId('')}
+                  />
+                ) : (
+                  <p className="text-sm text-slate-600 leading-relaxed">{activity.description}</p>
+                )}
+                {activity.sessions && activity.sessions.length > 0 && (
+                  <ul className="flex flex-wrap gap-2">
+                    {activity.sessions.map((s, idx) => (
+                      <li key={idx} className="px-2 py-1 rounded bg-slate-100 text-[10px] font-bold text-slate-500 uppercase">
+                        {s.start && s.end ? `${s.start}–${s.end}` : formatMinutes(sessionMinutes(s))} • {s.category}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {activity.quality?.scores && (
+                  <p className="text-[10px] font-bold text-slate-400 uppercase">
+                    {QUALITY_RUBRIC.map(c => `${c.label} ${activity.quality!.scores![c.key]}`).join(' • ')}
+                    {activity.quality.feedback && <span className="block normal-case font-normal italic text-slate-500 mt-1">AI: "{activity.quality.feedback}"</span>}
+                  </p>
+                )}
+                {isSuspicious(activity) && (
+                  <p className="text-xs font-bold text-red-600">Flagged: {activity.quality?.flags?.join(' ')}</p>
+                )}
+                {activity.quality?.notes && (
+                  <p className="text-xs font-bold text-slate-500">Worth a look: {activity.quality.notes.join(' ')}</p>
+                )}
+                {isSuspectedCopy(activity) && activity.similarity && (
+                  <p className="text-xs font-bold text-purple-600">
+                    {Math.round(activity.similarity.score * 100)}% similar to {activity.similarity.own ? 'their own entry' : "another intern's entry (see the review queue)"} of {activity.similarity.date}
+                  </p>
+                )}
+                {activity.review?.comment && (
+                  <p className="text-xs text-slate-500 italic">Reviewer: "{activity.review.comment}"</p>
+                )}
+                {activity.revisions && activity.revisions.length > 0 && (
+                  <details>
+                    <summary className="text-[10px] font-bold text-slate-400 uppercase cursor-pointer">Revision History ({activity.revisions.length})</summary>
+                    <div className="mt-2">
+                      <RevisionHistory revisions={activity.revisions} />
+                    </div>
+                  </details>
+                )}
+              </div>
+              {activity.proofLink && (
+                activity.proofLink.startsWith('data:image') ? (
+                  <a href={activity.proofLink} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                    <img src={activity.proofLink} alt={`Proof for ${activity.date}`} className="w-24 h-24 object-cover rounded-lg border border-slate-200" />
+                  </a>
+                ) : (
+                  <a href={activity.proofLink} target="_blank" rel="noopener noreferrer" className="shrink-0 text-xs font-bold text-blue-600 hover:underline">
+                    Proof Link ↗
+                  </a>
+                )
+              )}
+            </div>
+          ))}
+          {timeline.length === 0 && <p className="py-8 text-center text-slate-400 italic">No submissions yet.</p>}
+        </div>
+      </Panel>
+    </div>
+  );
+};
+
+const Panel = ({ title, className = '', children }: any) => (
+  <div className={`bg-white p-6 rounded-xl border border-slate-200 shadow-sm ${className}`}>
+    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">{title}</p>
+    {children}
+  </div>
+);
+
+const QualityTrend = ({ points }: { points: { date: string; score: number }[] }) => {
+  const width = 600;
+  const height = 120;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (score: number) => height - (score / 10) * height;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.score).toFixed(1)}`).join(' ');
+  const average = points.reduce((acc, p) => acc + p.score, 0) / points.length;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32" preserveAspectRatio="none">
+        <line x1="0" x2={width} y1={y(average)} y2={y(average)} stroke="#cbd5e1" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase mt-1">
+        <span>{points[0].date}</span>
+        <span>Avg {average.toFixed(1)} / 10</span>
+        <span>{points[points.length - 1].date}</span>
+      </div>
+    </div>
+  );
+};
+
+export default InternDetail;
@@ -0,0 +1,197 @@
+
+import React, { useState } from 'react';
+import { User, LeaveRequest, LeaveStatus, Holiday } from '../types';
+import { api } from '../services/apiService';
+import { expandDateRange } from '../utils/dates';
+
+interface LeaveManagerProps {
+  interns: User[];
+  leaveRequests: LeaveRequest[];
+  holidays: Holiday[];
+  canManageHolidays: boolean;
+  onLeaveDecided: (updated: LeaveRequest) => void;
+  onHolidaysSaved: (holidays: Holiday[]) => void;
+}
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+  [LeaveStatus.PENDING]: 'bg-amber-50 text-amber-700 border-amber-200',
+  [LeaveStatus.APPROVED]: 'bg-green-50 text-green-700 border-green-200',
+  [LeaveStatus.REJECTED]: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const LeaveManager: React.FC<LeaveManagerProps> = ({ interns, leaveRequests, holidays, canManageHolidays, onLeaveDecided, onHolidaysSaved }) => {
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus>(LeaveStatus.PENDING);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState('');
+  const [error, setError] = useState('');
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+
+  const internName = (internId: string) => interns.find(i => i.internId === internId)?.name || internId;
+
+  const queue = leaveRequests
+    .filter(l => l.status === statusFilter)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const handleDecision = async (request: LeaveRequest, status: LeaveStatus.APPROVED | LeaveStatus.REJECTED) => {
+    setBusyId(request.id);
+    setError('');
+    try {
+      onLeaveDecided(await api.decideLeave(request.id, status, comments[request.id] || ''));
+      setComments(prev => ({ ...prev, [request.id]: '' }));
+    } catch (err: any) {
+      setError(err.message || 'Decision failed.');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const saveHolidays = async (next: Holiday[]) => {
+    setBusyId('holidays');
+    setError('');
+    try {
+      await api.saveHolidays(next);
+      onHolidaysSaved(await api.getHolidays());
+      setNewHoliday({ date: '', name: '' });
+    } catch (err: any) {
+      setError(err.message || 'Could not save the holiday calendar.');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex gap-2">
+            {Object.values(LeaveStatus).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors ${statusFilter === status ? STATUS_STYLES[status] : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+              >
+                {status} ({leaveRequests.filter(l => l.status === status).length})
+              </button>
+            ))}
+          </div>
+          <p className="text-xs font-bold text-slate-500 uppercase">Earliest First</p>
+        </div>
+
+        {error && (
+          <div className="m-4 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-xs font-bold">{error}</div>
+        )}
+
+        <div className="divide-y divide-slate-100">
+          {queue.map(request => (
+            <div key={request.id} className="p-6 space-y-3">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <div className="text-sm font-bold text-slate-900">{internName(request.internId)}</div>
+                  <div className="text-xs text-slate-500">
+                    {request.internId} • {request.startDate} → {request.endDate} • {expandDateRange(request.startDate, request.endDate).length} days
+                  </div>
+                </div>
+                <span className={`w-fit px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border ${STATUS_STYLES[request.status]}`}>
+                  {request.status}
+                </span>
+              </div>
+              <p className="text-sm text-slate-600 leading-relaxed bg-slate-50 border border-slate-100 rounded-lg p-4">{request.reason}</p>
+              {request.attachment && (
+                <a href={request.attachment} target="_blank" rel="noopener noreferrer" className="inline-block text-xs font-bold text-blue-600 hover:underline">
+                  View Attachment
+                </a>
+              )}
+              {request.decisionComment && (
+                <p className="text-xs text-slate-500 italic">Decided by {request.reviewerId}: "{request.decisionComment}"</p>
+              )}
+              {request.status === LeaveStatus.PENDING && (
+                <div className="flex flex-col md:flex-row gap-3">
+                  <input
+                    type="text"
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Comment (required to reject)"
+                    value={comments[request.id] || ''}
+                    onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                  />
+                  <div className="flex gap-2">
+                    <DecisionButton label="Approve" disabled={busyId === request.id} onClick={() => handleDecision(request, LeaveStatus.APPROVED)} className="bg-green-600 hover:bg-green-700" />
+                    <DecisionButton label="Reject" disabled={busyId === request.id} onClick={() => handleDecision(request, LeaveStatus.REJECTED)} className="bg-red-600 hover:bg-red-700" />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {queue.length === 0 && (
+            <div className="px-6 py-12 text-center text-slate-400 italic">No {statusFilter} leave requests.</div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-fit">
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Holiday Calendar</p>
+        <ul className="space-y-2">
+          {holidays.map(h => (
+            <li key={h.date} className="flex items-center justify-between text-xs font-bold">
+              <span className="text-purple-700">{h.name}</span>
+              <span className="flex items-center gap-3 text-slate-400">
+                {h.date}
+                {canManageHolidays && (
+                  <button
+                    disabled={busyId === 'holidays'}
+                    onClick={() => saveHolidays(holidays.filter(other => other.date !== h.date))}
+                    className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                    title="Remove holiday"
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+          {holidays.length === 0 && <li className="text-xs text-slate-400 italic">No holidays configured.</li>}
+        </ul>
+        {canManageHolidays && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); saveHolidays([...holidays, newHoliday]); }}
+            className="mt-4 pt-4 border-t border-slate-100 space-y-2"
+          >
+            <input
+              type="date"
+              required
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+            />
+            <input
+              type="text"
+              required
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Holiday name"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+            />
+            <button
+              type="submit"
+              disabled={busyId === 'holidays'}
+              className="w-full px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-white bg-slate-900 hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              Add Holiday
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DecisionButton = ({ label, onClick, disabled, className }: any) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-white transition-colors disabled:opacity-50 ${className}`}
+  >
+    {label}
+  </button>
+);
+
+export default LeaveManager;
@@ -0,0 +1,157 @@
+import React, { useState, useRef } from 'react';
+import { LeaveRequest, LeaveStatus, Holiday } from '../types';
+import { api } from '../services/apiService';
+import { programToday } from '../utils/dates';
+
+interface LeaveRequestPanelProps {
+  requests: LeaveRequest[];
+  holidays: Holiday[];
+  onCreated: (request: LeaveRequest) => void;
+}
+
+const LEAVE_BADGES: Record<LeaveStatus, string> = {
+  [LeaveStatus.PENDING]: 'bg-white text-slate-400 border-slate-200',
+  [LeaveStatus.APPROVED]: 'bg-green-50 text-green-600 border-green-200',
+  [LeaveStatus.REJECTED]: 'bg-red-50 text-red-600 border-red-200'
+};
+
+const LeaveRequestPanel: React.FC<LeaveRequestPanelProps> = ({ requests, holidays, onCreated }) => {
+  const todayStr = programToday();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({ startDate: todayStr, endDate: todayStr, reason: '', attachment: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const upcomingHolidays = holidays.filter(h => h.date >= todayStr).slice(0, 5);
+  const sorted = [...requests].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > 2 * 1024 * 1024) {
+        setError('Attachment too large. Please use an image under 2MB.');
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => setFormData(prev => ({ ...prev, attachment: reader.result as string }));
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const created = await api.requestLeave({
+        startDate: formData.startDate,
+        endDate: formData.endDate,
+        reason: formData.reason,
+        attachment: formData.attachment || undefined
+      });
+      onCreated(created);
+      setFormData({ startDate: todayStr, endDate: todayStr, reason: '', attachment: '' });
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err: any) {
+      setError(err.message || 'Failed to file leave request.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[48px] shadow-sm border border-slate-200 space-y-10">
+      <h3 className="font-black text-slate-900 flex items-center gap-4 text-xs uppercase tracking-[0.3em]">Leave & Holidays</h3>
+
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">From</label>
+            <input
+              type="date"
+              required
+              className="w-full px-4 py-3 rounded-2xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 font-bold text-slate-900 bg-slate-50 text-xs"
+              value={formData.startDate}
+              onChange={(e) => setFormData({ ...formData, startDate: e.target.value, endDate: e.target.value > formData.endDate ? e.target.value : formData.endDate })}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">To</label>
+            <input
+              type="date"
+              required
+              min={formData.startDate}
+              className="w-full px-4 py-3 rounded-2xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 font-bold text-slate-900 bg-slate-50 text-xs"
+              value={formData.endDate}
+              onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+            />
+          </div>
+        </div>
+        <textarea
+          required
+          className="w-full px-5 py-4 rounded-[24px] border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 h-24 resize-none font-medium text-slate-800 placeholder:text-slate-300 bg-slate-50 text-sm"
+          placeholder="Reason for the absence..."
+          value={formData.reason}
+          onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+        />
+        <div className="flex items-center justify-between gap-4">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600"
+          >
+            {formData.attachment ? '✓ Attachment Added' : '+ Attach Document (Optional)'}
+          </button>
+          <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
+          <button
+            type="submit"
+            disabled={loading || !formData.reason.trim()}
+            className="px-6 py-3 rounded-[20px] font-black text-[10px] text-white uppercase tracking-widest bg-slate-900 hover:bg-blue-600 disabled:bg-slate-200 disabled:text-slate-400 transition-all"
+          >
+            {loading ? 'Filing...' : 'Request Leave'}
+          </button>
+        </div>
+        {error && (
+          <div className="p-4 bg-red-50 text-red-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-red-100">
+            Error: {error}
+          </div>
+        )}
+      </form>
+
+      {sorted.length > 0 && (
+        <ul className="space-y-4 pt-10 border-t border-slate-100">
+          {sorted.map(request => (
+            <li key={request.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-[11px] font-black text-slate-900 uppercase tracking-widest">
+                  {request.startDate === request.endDate ? request.startDate : `${request.startDate} → ${request.endDate}`}
+                </span>
+                <span className={`px-3 py-1 rounded-xl text-[9px] font-black uppercase tracking-widest border ${LEAVE_BADGES[request.status]}`}>
+                  {request.status}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500 font-semibold">{request.reason}</p>
+              {request.decisionComment && <p className="text-xs text-slate-400 italic">Note: "{request.decisionComment}"</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {upcomingHolidays.length > 0 && (
+        <div className="pt-10 border-t border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Upcoming Holidays</p>
+          <ul className="space-y-2">
+            {upcomingHolidays.map(h => (
+              <li key={h.date} className="flex justify-between text-[11px] font-black uppercase tracking-widest">
+                <span className="text-purple-600">{h.name}</span>
+                <span className="text-slate-400">{h.date}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaveRequestPanel;
@@ -1,18 +1,27 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { User } from '../types';
 import { api } from '../services/apiService';
+import { auth } from '../services/authService';
+import { CONFIG } from '../services/config';
 import { BrandLogo } from './Logo';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: User, token: string) => void;
 }
 
+type LoginStep = 'identify' | 'pin' | 'code' | 'setPin';
+
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [nameQuery, setNameQuery] = useState('');
   const [internId, setInternId] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(true);
+  const [step, setStep] = useState<LoginStep>('identify');
+  const [account, setAccount] = useState<User | null>(null);
+  const [secret, setSecret] = useState('');
+  const [pendingToken, setPendingToken] = useState('');
+  const [notice, setNotice] = useState('');
   
   const [directory, setDirectory] = useState<{ name: string; id: string }[]>([]);
   const [filteredNames, setFilteredNames] = useState<{ name: string; id: string }[]>([]);
@@ -63,25 +72,67 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setIsDropdownOpen(false);
   };
 
+  const resetToIdentify = () => {
+    setStep('identify');
+    setAccount(null);
+    setSecret('');
+    setNotice('');
+    setError('');
+  };
+
+  const sendCode = async (user: User) => {
+    await auth.requestCode(user);
+    setSecret('');
+    setStep('code');
+    // Delivery can't be confirmed from the browser, so the notice only says what was requested
+    setNotice(auth.codeDelivery === 'console'
+      ? 'Dev mode: no email was sent. The code is printed in the browser console.'
+      : 'A code was requested for the email address on file for this ID. It can take a minute to arrive.');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      const user = await api.loginByName(nameQuery.trim(), internId.trim());
-      if (user) {
-        onLogin(user);
-      } else {
-        setError('Verification failed. The ID provided does not match the selected intern.');
+      if (step === 'identify') {
+        const { user, hasPin } = await auth.identify(nameQuery.trim(), internId.trim());
+        setAccount(user);
+        if (hasPin) {
+          setSecret('');
+          setStep('pin');
+        } else {
+          await sendCode(user);
+        }
+      } else if (step === 'pin' && account) {
+        onLogin(account, await auth.loginWithPin(account, secret));
+      } else if (step === 'code' && account) {
+        const token = await auth.loginWithCode(account, secret);
+        if (auth.hasPin(account.internId)) {
+          onLogin(account, token);
+        } else {
+          // First sign-in: offer to set a PIN so future logins skip the email round trip
+          setPendingToken(token);
+          setSecret('');
+          setNotice('The PIN is kept on this device only; elsewhere, sign in with a code.');
+          setStep('setPin');
+        }
+      } else if (step === 'setPin' && account) {
+        await auth.setPin(pendingToken, secret);
+        onLogin(account, pendingToken);
       }
-    } catch (err) {
-      setError('Connection error. Please try again later.');
+    } catch (err: any) {
+      setError(err?.message || 'Connection error. Please try again later.');
     } finally {
       setLoading(false);
     }
   };
 
+  const secretLabel = step === 'pin' ? 'Enter Your PIN' : step === 'code' ? 'One-Time Code' : 'Create a PIN';
+  const isSubmitDisabled = loading || syncing || (step === 'identify' ? (!nameQuery || !internId) : !secret);
+  const submitLabel = step === 'identify' ? 'Validate & Continue' : step === 'setPin' ? 'Save PIN & Enter' : 'Verify & Enter';
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50 px-4 py-12 relative overflow-hidden">
       {/* Dynamic Professional Background */}
@@ -105,6 +156,8 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         {/* Login Card */}
         <div className="w-full bg-white border border-slate-100 rounded-[40px] shadow-[0_40px_100px_-20px_rgba(0,0,0,0.1)] p-8 md:p-10">
           <form onSubmit={handleSubmit} className="space-y-6">
+            {step === 'identify' ? (
+            <>
             <div className="relative" ref={dropdownRef}>
               <label className="block text-[10px] font-extrabold text-slate-400 uppercase tracking-widest mb-3 ml-1">Registered Name</label>
               <div className="relative">
@@ -148,6 +201,33 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 onChange={(e) => setInternId(e.target.value.toUpperCase())}
               />
             </div>
+            </>
+            ) : (
+            <div>
+              <div className="mb-6 flex items-center justify-between">
+                <div>
+                  <p className="font-bold text-slate-800">{account?.name}</p>
+                  <p className="text-[9px] text-blue-500 uppercase font-black tracking-widest mt-0.5">{account?.internId}</p>
+                </div>
+                <button type="button" onClick={resetToIdentify} className="text-[10px] font-extrabold text-slate-300 hover:text-blue-500 transition-colors uppercase tracking-[0.2em]">
+                  Change
+                </button>
+              </div>
+              <label className="block text-[10px] font-extrabold text-slate-400 uppercase tracking-widest mb-3 ml-1">{secretLabel}</label>
+              <input 
+                type="password" 
+                inputMode="numeric"
+                autoComplete={step === 'setPin' ? 'new-password' : step === 'code' ? 'one-time-code' : 'current-password'}
+                required
+                autoFocus
+                className="w-full px-5 py-4 rounded-2xl border border-slate-100 focus:ring-4 focus:ring-blue-50 focus:border-blue-400 outline-none transition-all text-slate-900 font-mono font-black tracking-[0.5em] placeholder:text-slate-200 placeholder:font-sans placeholder:font-normal placeholder:tracking-normal"
+                placeholder={step === 'setPin' ? `At least ${CONFIG.AUTH.MIN_PIN_LENGTH} digits` : '••••••'}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value.replace(/\D/g, ''))}
+              />
+              {notice && <p className="mt-3 ml-1 text-[10px] font-bold text-slate-400">{notice}</p>}
+            </div>
+            )}
 
             {error && (
               <div className="p-4 bg-red-50 border border-red-100 rounded-2xl flex items-center gap-3 text-red-600 text-[11px] font-bold uppercase tracking-tight">
@@ -160,22 +240,30 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
 
             <button 
               type="submit" 
-              disabled={loading || syncing || !nameQuery || !internId}
-              className={`w-full py-4 px-8 rounded-2xl font-black text-xs text-white transition-all uppercase tracking-widest ${loading || syncing || !nameQuery || !internId ? 'bg-slate-100 cursor-not-allowed text-slate-300' : 'bg-[#e2e8f0] hover:bg-blue-600 text-slate-500 hover:text-white active:scale-[0.98] shadow-sm'}`}
+              disabled={isSubmitDisabled}
+              className={`w-full py-4 px-8 rounded-2xl font-black text-xs text-white transition-all uppercase tracking-widest ${isSubmitDisabled ? 'bg-slate-100 cursor-not-allowed text-slate-300' : 'bg-[#e2e8f0] hover:bg-blue-600 text-slate-500 hover:text-white active:scale-[0.98] shadow-sm'}`}
             >
-              {loading ? 'Validating...' : 'Validate & Enter'}
+              {loading ? 'Validating...' : submitLabel}
             </button>
           </form>
 
-          <div className="mt-8 pt-6 border-t border-slate-50 flex items-center justify-center">
-            <button 
-              type="button" 
-              onClick={() => { setNameQuery('Program Director'); setInternId('ADM-001'); }}
-              className="text-[10px] font-extrabold text-slate-300 hover:text-blue-500 transition-colors uppercase tracking-[0.2em]"
-            >
-              Administrative Access
-            </button>
-          </div>
+          {(step === 'pin' || step === 'code' || step === 'setPin') && account && (
+            <div className="mt-8 pt-6 border-t border-slate-50 flex items-center justify-center">
+              <button 
+                type="button" 
+                disabled={loading}
+                onClick={async () => {
+                  setError('');
+                  if (step === 'setPin') { onLogin(account, pendingToken); return; }
+                  setLoading(true);
+                  try { await sendCode(account); } catch (err: any) { setError(err?.message || 'Could not send a code.'); } finally { setLoading(false); }
+                }}
+                className="text-[10px] font-extrabold text-slate-300 hover:text-blue-500 transition-colors uppercase tracking-[0.2em]"
+              >
+                {step === 'pin' ? 'Email Me a Code Instead' : step === 'code' ? 'Resend Code' : 'Skip for Now'}
+              </button>
+            </div>
+          )}
         </div>
         
         {/* Support Footer text */}
@@ -183,6 +271,9 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
           <p className="text-blue-500 font-bold text-sm tracking-wide">
             Contact- akhil@cloudailabs.in
           </p>
+          <a href="#/verify" className="block text-[10px] font-extrabold text-slate-400 hover:text-blue-500 transition-colors uppercase tracking-[0.2em]">
+            Verify a Certificate
+          </a>
           <p className="text-[10px] text-slate-300 font-bold uppercase tracking-widest opacity-60">
             © 2026 CloudAiLabs • PRIVACY SECURED
           </p>
@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { Activity, ReviewStatus } from '../types';
+import { QUALITY_RUBRIC, isScoringFailed, isSuspicious } from '../utils/quality';
+import { isHeldAsCopy } from '../utils/similarity';
+import { getReviewStatus } from '../utils/logic';
+
+interface QualityFeedbackProps {
+  activity: Activity;
+}
+
+const barColor = (score: number) => score >= 7 ? 'bg-green-500' : score >= 4 ? 'bg-amber-400' : 'bg-red-500';
+
+const QualityFeedback: React.FC<QualityFeedbackProps> = ({ activity }) => {
+  const { quality } = activity;
+  if (!quality) return null;
+
+  if ((isSuspicious(activity) || isHeldAsCopy(activity)) && getReviewStatus(activity) === ReviewStatus.PENDING) {
+    return (
+      <div className="bg-amber-50 border border-amber-100 rounded-[24px] p-6 text-[10px] font-black uppercase tracking-widest text-amber-700">
+        Held for review — this entry will count once a reviewer approves it
+      </div>
+    );
+  }
+
+  if (isScoringFailed(activity)) {
+    return (
+      <div className="bg-slate-50 border border-slate-100 rounded-[24px] p-6 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        Automatic quality check unavailable — a reviewer will assess this entry
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50/50 border border-blue-100 rounded-[24px] p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase tracking-widest text-blue-600">Quality Feedback</span>
+        {typeof activity.qualityScore === 'number' && (
+          <span className="text-sm font-black text-slate-900">{activity.qualityScore} / 10</span>
+        )}
+      </div>
+      {quality.scores && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {QUALITY_RUBRIC.map(c => (
+            <div key={c.key} title={c.guide}>
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">
+                <span>{c.label}</span>
+                <span>{quality.scores![c.key]}</span>
+              </div>
+              <div className="h-1.5 bg-white rounded-full overflow-hidden">
+                <div className={`h-full ${barColor(quality.scores![c.key])}`} style={{ width: `${quality.scores![c.key] * 10}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {quality.feedback && <p className="text-sm text-slate-700 font-semibold">{quality.feedback}</p>}
+    </div>
+  );
+};
+
+export default QualityFeedback;
@@ -0,0 +1,192 @@
+
+import React, { useState, useEffect } from 'react';
+import { User, Activity, ReviewStatus, SimilaritySource } from '../types';
+import { api } from '../services/apiService';
+import { getReviewStatus, isWithdrawn } from '../utils/logic';
+import { exceedsTrackedTime } from '../utils/sessions';
+import { isScoringFailed, isSuspicious, needsAttention } from '../utils/quality';
+import { isSuspectedCopy } from '../utils/similarity';
+
+interface ReviewQueueProps {
+  interns: User[];
+  activities: Activity[];
+  onReviewed: (updated: Activity) => void;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  [ReviewStatus.PENDING]: 'bg-amber-50 text-amber-700 border-amber-200',
+  [ReviewStatus.APPROVED]: 'bg-green-50 text-green-700 border-green-200',
+  [ReviewStatus.REJECTED]: 'bg-red-50 text-red-700 border-red-200',
+  [ReviewStatus.NEEDS_REVISION]: 'bg-blue-50 text-blue-700 border-blue-200'
+};
+
+type FlagFilter = '' | 'suspicious' | 'copy';
+
+const FLAG_TESTS: Record<Exclude<FlagFilter, ''>, (a: Activity) => boolean> = {
+  suspicious: needsAttention,
+  copy: isSuspectedCopy
+};
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ interns, activities: allEntries, onReviewed }) => {
+  const activities = allEntries.filter(a => !isWithdrawn(a));
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus>(ReviewStatus.PENDING);
+  const [flagFilter, setFlagFilter] = useState<FlagFilter>('');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState('');
+  const [error, setError] = useState('');
+  const [sources, setSources] = useState<Record<string, SimilaritySource | null>>({});
+
+  const internName = (internId: string) => interns.find(i => i.internId === internId)?.name || internId;
+
+  const inStatus = activities.filter(a => getReviewStatus(a) === statusFilter);
+  const queue = inStatus
+    .filter(a => !flagFilter || FLAG_TESTS[flagFilter](a))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Entries only say a copy came from another intern; whose entry it was is looked up for reviewers here
+  const unresolved = queue.filter(a => isSuspectedCopy(a) && !a.similarity?.own && !(a.id in sources)).map(a => a.id);
+  useEffect(() => {
+    if (unresolved.length === 0) return;
+    let cancelled = false;
+    Promise.all(unresolved.map(id => api.getSimilaritySource(id).catch(() => null).then(source => [id, source] as const)))
+      .then(found => { if (!cancelled) setSources(prev => ({ ...prev, ...Object.fromEntries(found) })); });
+    return () => { cancelled = true; };
+  }, [unresolved.join(',')]);
+
+  const handleReview = async (activity: Activity, status: ReviewStatus) => {
+    setBusyId(activity.id);
+    setError('');
+    try {
+      const updated = await api.reviewActivity(activity.id, status, comments[activity.id] || '');
+      onReviewed(updated);
+      setComments(prev => ({ ...prev, [activity.id]: '' }));
+    } catch (err: any) {
+      setError(err.message || 'Review failed.');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex gap-2">
+          {Object.values(ReviewStatus).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors ${statusFilter === status ? STATUS_STYLES[status] : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {status.replace('-', ' ')} ({activities.filter(a => getReviewStatus(a) === status).length})
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4">
+          <select
+            className="py-1.5 px-3 border border-slate-300 rounded-lg bg-white text-xs font-bold text-slate-600 uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={flagFilter}
+            onChange={(e) => setFlagFilter(e.target.value as FlagFilter)}
+          >
+            <option value="">All Entries</option>
+            <option value="suspicious">Suspicious Input ({inStatus.filter(needsAttention).length})</option>
+            <option value="copy">Suspected Copy ({inStatus.filter(isSuspectedCopy).length})</option>
+          </select>
+          <p className="text-xs font-bold text-slate-500 uppercase">Oldest First</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="m-4 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-xs font-bold">{error}</div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {queue.map(activity => (
+          <div key={activity.id} className="p-6 space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <div>
+                <div className="text-sm font-bold text-slate-900">
+                  {internName(activity.internId)}
+                  {activity.isLate && <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-amber-50 text-amber-700 border border-amber-200">Late Entry</span>}
+                  {exceedsTrackedTime(activity) && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-red-50 text-red-700 border border-red-200">
+                      Claims {activity.hours}h • Tracked {(Number(activity.trackedMinutes) / 60).toFixed(2)}h
+                    </span>
+                  )}
+                  {isSuspicious(activity) && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-red-50 text-red-700 border border-red-200" title={activity.quality?.flags?.join(' ')}>
+                      Suspicious Input
+                    </span>
+                  )}
+                  {!isSuspicious(activity) && needsAttention(activity) && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-slate-100 text-slate-600 border border-slate-200" title={activity.quality?.notes?.join(' ')}>
+                      Check Wording
+                    </span>
+                  )}
+                  {isSuspectedCopy(activity) && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-purple-50 text-purple-700 border border-purple-200">
+                      Suspected Copy
+                    </span>
+                  )}
+                  {isScoringFailed(activity) && <span className="ml-2 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-widest bg-slate-100 text-slate-600 border border-slate-200">Scoring Failed</span>}
+                </div>
+                <div className="text-xs text-slate-500">{activity.internId} • {activity.date} • {activity.category} • {activity.hours}h{typeof activity.qualityScore === 'number' ? ` • Quality ${activity.qualityScore}/10` : ''}</div>
+              </div>
+              <span className={`w-fit px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border ${STATUS_STYLES[getReviewStatus(activity)]}`}>
+                {getReviewStatus(activity).replace('-', ' ')}
+              </span>
+            </div>
+            <p className="text-sm text-slate-600 leading-relaxed bg-slate-50 border border-slate-100 rounded-lg p-4">{activity.description}</p>
+            {isSuspicious(activity) && (
+              <p className="text-xs font-bold text-red-600">Held for review: {activity.quality?.flags?.join(' ')}</p>
+            )}
+            {activity.quality?.notes && (
+              <p className="text-xs font-bold text-slate-500">Worth a look (still counts): {activity.quality.notes.join(' ')}</p>
+            )}
+            {isSuspectedCopy(activity) && activity.similarity && (
+              <p className="text-xs font-bold text-purple-600">
+                {Math.round(activity.similarity.score * 100)}% similar to {activity.similarity.own ? 'their own entry' : sources[activity.id] ? `${internName(sources[activity.id]!.internId)}'s entry` : "another intern's entry"} of {sources[activity.id]?.date || activity.similarity.date}
+              </p>
+            )}
+            {activity.proofLink && (
+              <a href={activity.proofLink} target="_blank" rel="noopener noreferrer" className="inline-block text-xs font-bold text-blue-600 hover:underline">
+                View Proof of Work
+              </a>
+            )}
+            {activity.review?.comment && (
+              <p className="text-xs text-slate-500 italic">Last review by {activity.review.reviewerId}: "{activity.review.comment}"</p>
+            )}
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Comment (required to reject or request changes)"
+                value={comments[activity.id] || ''}
+                onChange={(e) => setComments(prev => ({ ...prev, [activity.id]: e.target.value }))}
+              />
+              <div className="flex gap-2">
+                <ReviewButton label="Approve" disabled={busyId === activity.id} onClick={() => handleReview(activity, ReviewStatus.APPROVED)} className="bg-green-600 hover:bg-green-700" />
+                <ReviewButton label="Request Changes" disabled={busyId === activity.id} onClick={() => handleReview(activity, ReviewStatus.NEEDS_REVISION)} className="bg-blue-600 hover:bg-blue-700" />
+                <ReviewButton label="Reject" disabled={busyId === activity.id} onClick={() => handleReview(activity, ReviewStatus.REJECTED)} className="bg-red-600 hover:bg-red-700" />
+              </div>
+            </div>
+          </div>
+        ))}
+        {queue.length === 0 && (
+          <div className="px-6 py-12 text-center text-slate-400 italic">Nothing in this queue.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ReviewButton = ({ label, onClick, disabled, className }: any) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-white transition-colors disabled:opacity-50 ${className}`}
+  >
+    {label}
+  </button>
+);
+
+export default ReviewQueue;
@@ -0,0 +1,37 @@
+
+import React from 'react';
+import { ActivityRevision } from '../types';
+
+interface RevisionHistoryProps {
+  revisions: ActivityRevision[];
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = String(value);
+  if (text.startsWith('data:')) return '[image]';
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions }) => (
+  <ol className="space-y-2 border-l-2 border-slate-200 pl-4">
+    {[...revisions].reverse().map((revision, idx) => (
+      <li key={idx} className="text-xs text-slate-500">
+        <span className="font-bold text-slate-700 uppercase">{revision.action === 'withdraw' ? 'Withdrawn' : 'Edited'}</span>
+        {' '}by {revision.by} • {new Date(revision.at).toLocaleString()}
+        {revision.note && <span className="italic"> — "{revision.note}"</span>}
+        {revision.action === 'edit' && (
+          <ul className="mt-1 space-y-0.5">
+            {revision.changes.map(change => (
+              <li key={change.field}>
+                <span className="font-bold">{change.field}</span>: <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+export default RevisionHistory;
@@ -0,0 +1,222 @@
+
+import React, { useState } from 'react';
+import { User, Cohort } from '../types';
+import { api } from '../services/apiService';
+import { parseCSV } from '../utils/csv';
+import { readXlsx, XlsxTable } from '../utils/xlsx';
+import { ROSTER_FIELDS, ColumnMapping, guessMapping, buildRosterRows, diffRoster } from '../utils/roster';
+
+interface RosterImportProps {
+  interns: User[];
+  cohorts: Cohort[];
+  onImported: (saved: User[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const RosterImport: React.FC<RosterImportProps> = ({ interns, cohorts, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [tables, setTables] = useState<XlsxTable[]>([]);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const table = tables[tableIndex];
+  const headers = table?.rows[0] || [];
+  const rows = table && mapping ? buildRosterRows(table.rows, mapping, cohorts, interns) : [];
+  const invalid = rows.filter(r => r.errors.length > 0);
+  const diff = diffRoster(interns, rows, deactivateMissing);
+  const changeCount = diff.added.length + diff.updated.length + diff.deactivated.length;
+  const missingRequired = ROSTER_FIELDS.filter(f => f.required && mapping && mapping[f.key] < 0);
+
+  const selectTable = (next: XlsxTable[], index: number) => {
+    setTables(next);
+    setTableIndex(index);
+    setMapping(next[index] ? guessMapping(next[index].rows[0] || []) : null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setNotice('');
+    try {
+      const buffer = new Uint8Array(await file.arrayBuffer());
+      const parsed = /\.xlsx$/i.test(file.name)
+        ? readXlsx(buffer)
+        : [{ name: file.name, rows: parseCSV(new TextDecoder().decode(buffer)) }];
+      if (!parsed.some(t => t.rows.length > 1)) throw new Error('The file has no data rows.');
+      setFileName(file.name);
+      selectTable(parsed, Math.max(parsed.findIndex(t => t.rows.length > 1), 0));
+    } catch (err: any) {
+      setError(err.message || 'Could not read the file.');
+    }
+  };
+
+  const handleApply = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const saved = await api.importRoster([...diff.added, ...diff.updated.map(c => c.after), ...diff.deactivated]);
+      onImported(saved);
+      setNotice(`Imported ${saved.length} change${saved.length === 1 ? '' : 's'} from ${fileName}.`);
+      setTables([]);
+      setMapping(null);
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = "w-full py-2 px-3 border border-slate-300 rounded-lg bg-white text-xs font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-slate-900">Bulk Import</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">CSV or XLSX • header row first • nothing is saved until you apply</p>
+        </div>
+        <label className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 transition-colors shadow-sm cursor-pointer">
+          Choose File
+          <input type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+
+      {error && <div className="m-4 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-xs font-bold">{error}</div>}
+      {notice && <div className="m-4 p-3 bg-green-50 border border-green-100 rounded-lg text-green-700 text-xs font-bold">{notice}</div>}
+
+      {table && mapping && (
+        <div className="p-6 space-y-6">
+          {tables.length > 1 && (
+            <div className="max-w-xs">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Worksheet</p>
+              <select className={selectClass} value={tableIndex} onChange={(e) => selectTable(tables, Number(e.target.value))}>
+                {tables.map((t, i) => <option key={i} value={i}>{t.name} ({Math.max(t.rows.length - 1, 0)} rows)</option>)}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Column Mapping</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {ROSTER_FIELDS.map(field => (
+                <div key={field.key}>
+                  <p className="text-[10px] font-bold text-slate-500 uppercase mb-1">{field.label}{field.required && ' *'}</p>
+                  <select
+                    className={selectClass}
+                    value={mapping[field.key]}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                  >
+                    <option value={-1}>— Not imported —</option>
+                    {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="mt-2 text-[10px] font-bold text-amber-600 uppercase">
+                Unmapped: {missingRequired.map(f => f.label).join(', ')} • existing interns keep their values, new ones will fail validation
+              </p>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">ID</th>
+                  <th className="px-3 py-2">Name</th>
+                  <th className="px-3 py-2">Email</th>
+                  <th className="px-3 py-2">Cohort</th>
+                  <th className="px-3 py-2">Joined</th>
+                  <th className="px-3 py-2">Active</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.slice(0, PREVIEW_ROWS).map(({ line, user, errors }) => (
+                  <tr key={line} className={errors.length > 0 ? 'bg-red-50/50' : ''}>
+                    <td className="px-3 py-2 text-slate-400">{line}</td>
+                    <td className="px-3 py-2 font-bold text-slate-900">{user.internId}</td>
+                    <td className="px-3 py-2">{user.name}</td>
+                    <td className="px-3 py-2">{user.email}</td>
+                    <td className="px-3 py-2">{cohorts.find(c => c.id === user.cohortId)?.name || ''}</td>
+                    <td className="px-3 py-2">{user.joiningDate}</td>
+                    <td className="px-3 py-2">{user.active === false ? 'No' : 'Yes'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="px-3 py-2 text-[10px] font-bold text-slate-400 uppercase border-t border-slate-100">+ {rows.length - PREVIEW_ROWS} more rows</p>
+            )}
+          </div>
+
+          {invalid.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-100 rounded-lg space-y-1 max-h-48 overflow-y-auto">
+              <p className="text-[10px] font-bold text-red-700 uppercase tracking-widest mb-2">{invalid.length} rows will be skipped</p>
+              {invalid.map(r => (
+                <p key={r.line} className="text-xs text-red-600"><span className="font-bold">Row {r.line}:</span> {r.errors.join(' ')}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <DiffStat label="New" value={diff.added.length} accent="text-green-600" />
+            <DiffStat label="Updated" value={diff.updated.length} accent="text-blue-600" />
+            <DiffStat label="Unchanged" value={diff.unchanged} accent="text-slate-400" />
+            <DiffStat label="Deactivated" value={diff.deactivated.length} accent="text-red-600" />
+          </div>
+
+          {(diff.updated.length > 0 || diff.deactivated.length > 0) && (
+            <ul className="text-xs text-slate-600 space-y-1 max-h-48 overflow-y-auto">
+              {diff.updated.map(c => (
+                <li key={c.after.internId}><span className="font-bold text-slate-900">{c.after.internId}</span> {c.before.name}: {c.fields.join(', ')}</li>
+              ))}
+              {diff.deactivated.map(u => (
+                <li key={u.internId} className="text-red-600"><span className="font-bold">{u.internId}</span> {u.name}: not in file, will be deactivated</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 pt-4 border-t border-slate-100">
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-700 cursor-pointer">
+              <input type="checkbox" checked={deactivateMissing} onChange={(e) => setDeactivateMissing(e.target.checked)} />
+              Deactivate interns missing from the file
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => { setTables([]); setMapping(null); }}
+                className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={busy || changeCount === 0}
+                className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {busy ? 'Applying...' : `Apply ${changeCount} Change${changeCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DiffStat = ({ label, value, accent }: any) => (
+  <div className="p-4 border border-slate-200 rounded-lg">
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</p>
+    <p className={`text-2xl font-black ${accent}`}>{value}</p>
+  </div>
+);
+
+export default RosterImport;
@@ -0,0 +1,187 @@
+
+import React, { useState } from 'react';
+import { User, UserRole, Cohort } from '../types';
+import { api } from '../services/apiService';
+import { isActive } from '../utils/roster';
+import RosterImport from './RosterImport';
+
+interface RosterManagerProps {
+  interns: User[];
+  cohorts: Cohort[];
+  onRosterSaved: (saved: User[]) => void;
+}
+
+const EMPTY_INTERN: User = { id: '', name: '', email: '', role: UserRole.INTERN, internId: '', joiningDate: '' };
+
+const RosterManager: React.FC<RosterManagerProps> = ({ interns, cohorts, onRosterSaved }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [draft, setDraft] = useState<User>(EMPTY_INTERN);
+  const [editingId, setEditingId] = useState('');
+  const [busyId, setBusyId] = useState('');
+  const [error, setError] = useState('');
+
+  const visible = interns
+    .filter(i => showInactive || isActive(i))
+    .filter(i => i.name.toLowerCase().includes(searchTerm.toLowerCase()) || i.internId.toLowerCase().includes(searchTerm.toLowerCase()))
+    .sort((a, b) => a.internId.localeCompare(b.internId));
+
+  const startEdit = (intern: User) => {
+    setEditingId(intern.internId);
+    setDraft({ ...intern });
+    setError('');
+  };
+
+  const resetForm = () => {
+    setEditingId('');
+    setDraft(EMPTY_INTERN);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusyId('form');
+    setError('');
+    try {
+      const isNew = !editingId;
+      const saved = await api.saveIntern({ ...draft, id: draft.id || `intern-${draft.internId.trim().toUpperCase()}` }, isNew);
+      onRosterSaved([saved]);
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Could not save the intern.');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const toggleActive = async (intern: User) => {
+    if (isActive(intern) && !window.confirm(`Deactivate ${intern.name}? They will no longer be able to sign in.`)) return;
+    setBusyId(intern.internId);
+    setError('');
+    try {
+      onRosterSaved([await api.setInternActive(intern.internId, !isActive(intern))]);
+    } catch (err: any) {
+      setError(err.message || 'Could not update the intern.');
+    } finally {
+      setBusyId('');
+    }
+  };
+
+  const cohortDefault = (cohortId: string) => cohorts.find(c => c.id === cohortId)?.startDate || '';
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 disabled:text-slate-400";
+
+  return (
+    <div className="space-y-6">
+      <RosterImport interns={interns} cohorts={cohorts} onImported={onRosterSaved} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <input
+              type="text"
+              className="flex-1 max-w-md px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Search by name or ID..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase cursor-pointer">
+              <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+              Show Deactivated ({interns.filter(i => !isActive(i)).length})
+            </label>
+          </div>
+
+          {error && <div className="m-4 p-3 bg-red-50 border border-red-100 rounded-lg text-red-600 text-xs font-bold">{error}</div>}
+
+          <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase sticky top-0">
+                <tr>
+                  <th className="px-6 py-3">Intern</th>
+                  <th className="px-6 py-3">Cohort</th>
+                  <th className="px-6 py-3">Joined</th>
+                  <th className="px-6 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visible.map(intern => (
+                  <tr key={intern.internId} className={isActive(intern) ? '' : 'opacity-50'}>
+                    <td className="px-6 py-3">
+                      <div className="text-sm font-bold text-slate-900">{intern.name}</div>
+                      <div className="text-xs text-slate-500">{intern.internId} • {intern.email}</div>
+                    </td>
+                    <td className="px-6 py-3 text-xs text-slate-600">{cohorts.find(c => c.id === intern.cohortId)?.name || 'Unassigned'}</td>
+                    <td className="px-6 py-3 text-xs text-slate-600">{intern.joiningDate}</td>
+                    <td className="px-6 py-3 text-right space-x-3 whitespace-nowrap">
+                      <button onClick={() => startEdit(intern)} className="text-xs font-bold text-blue-600 hover:underline">Edit</button>
+                      <button
+                        onClick={() => toggleActive(intern)}
+                        disabled={busyId === intern.internId}
+                        className={`text-xs font-bold hover:underline disabled:opacity-50 ${isActive(intern) ? 'text-red-600' : 'text-green-600'}`}
+                      >
+                        {isActive(intern) ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr><td colSpan={4} className="px-6 py-12 text-center text-slate-400 italic">No interns match.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <form onSubmit={handleSave} className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-fit space-y-3">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{editingId ? `Edit ${editingId}` : 'Add Intern'}</p>
+          <input
+            className={inputClass}
+            placeholder="Intern ID"
+            required
+            disabled={!!editingId}
+            value={draft.internId}
+            onChange={(e) => setDraft({ ...draft, internId: e.target.value.toUpperCase() })}
+          />
+          <input className={inputClass} placeholder="Full name" required value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <input className={inputClass} type="email" placeholder="Email" required value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} />
+          <select
+            className={inputClass}
+            value={draft.cohortId || ''}
+            onChange={(e) => setDraft({
+              ...draft,
+              cohortId: e.target.value || undefined,
+              joiningDate: draft.joiningDate || cohortDefault(e.target.value)
+            })}
+          >
+            <option value="">No cohort</option>
+            {cohorts.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <input
+            className={inputClass}
+            placeholder="Mentor ID (optional)"
+            value={draft.mentorId || ''}
+            onChange={(e) => setDraft({ ...draft, mentorId: e.target.value.toUpperCase() || undefined })}
+          />
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase mb-1">Joining Date</p>
+            <input className={inputClass} type="date" value={draft.joiningDate} onChange={(e) => setDraft({ ...draft, joiningDate: e.target.value })} />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <button
+              type="submit"
+              disabled={busyId === 'form'}
+              className="flex-1 px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {editingId ? 'Save Changes' : 'Add Intern'}
+            </button>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50">
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RosterManager;
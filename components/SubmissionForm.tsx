@@ -1,28 +1,67 @@
 
-import React, { useState, useRef } from 'react';
-import { ActivityCategory, User, Activity } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { ActivityCategory, User, Activity, WorkSession, SimilarityWarning } from '../types';
 import { api } from '../services/apiService';
+import { CONFIG } from '../services/config';
+import { validateSessions, sessionMinutes, formatMinutes, exceedsTrackedTime } from '../utils/sessions';
+import { WorkTimer } from '../services/workTimer';
+import { programToday, formatDate } from '../utils/dates';
+
+const { STEP_MINUTES, MAX_DAILY_HOURS } = CONFIG.SESSION_SETTINGS;
+const DURATION_OPTIONS = Array.from({ length: (MAX_DAILY_HOURS * 60) / STEP_MINUTES }, (_, i) => (i + 1) * STEP_MINUTES);
+const DEFAULT_SESSION: WorkSession = { minutes: 180, category: ActivityCategory.LEARNING };
+const fieldClass = "px-4 py-3 rounded-xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 transition-all font-bold text-slate-900 bg-white text-sm";
 
 interface SubmissionFormProps {
   user: User;
   onSuccess: (newActivity: Activity) => void;
+  openDates?: string[]; // Today and any missed days still inside the backdating window
+  timer?: WorkTimer;
+  prefill?: WorkSession[]; // Sessions handed over by the work timer
+  prefillDate?: string; // Day those sessions were tracked, when it is not today
+  prefillTrackedMinutes?: number; // Timer total for prefillDate
 }
 
-const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
+const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess, openDates, timer, prefill, prefillDate, prefillTrackedMinutes }) => {
   const [loading, setLoading] = useState(false);
+  const [copyWarning, setCopyWarning] = useState<SimilarityWarning | null>(null);
   const [error, setError] = useState('');
   const [proofMode, setProofMode] = useState<'image' | 'url'>('image');
+  const [sessions, setSessions] = useState<WorkSession[]>([DEFAULT_SESSION]);
   const [formData, setFormData] = useState({
-    hours: 3,
-    category: ActivityCategory.LEARNING,
     description: '',
     proof: '' // Can be URL or Base64 Image
   });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Get local date in YYYY-MM-DD format
-  const todayStr = new Date().toLocaleDateString('en-CA');
+  // Today on the program calendar, not the browser's
+  const todayStr = programToday();
+  const dates = openDates && openDates.length > 0 ? openDates : [todayStr];
+  const [entryDate, setEntryDate] = useState(dates[0]);
+  const isLate = entryDate !== todayStr;
+
+  useEffect(() => {
+    if (!dates.includes(entryDate)) setEntryDate(dates[0]);
+  }, [dates.join(',')]);
+
+  useEffect(() => {
+    if (!prefill || prefill.length === 0) return;
+    setSessions(prefill);
+    const target = prefillDate || todayStr;
+    if (dates.includes(target)) setEntryDate(target);
+  }, [prefill]);
+
+  const sessionErrors = validateSessions(sessions);
+  const totalMinutes = sessions.reduce((acc, s) => acc + Math.max(sessionMinutes(s), 0), 0);
+
+  // Today's total is read live; an earlier day's was settled when the timer handed it over
+  const trackedMinutes = !isLate ? timer?.trackedMinutes() || 0 : entryDate === prefillDate ? prefillTrackedMinutes || 0 : 0;
+  const overTracked = trackedMinutes > 0 && exceedsTrackedTime({ hours: totalMinutes / 60, trackedMinutes });
+
+  const updateSession = (index: number, changes: Partial<WorkSession>) => {
+    setSessions(sessions.map((s, i) => i === index ? { ...s, ...changes } : s));
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -46,6 +85,10 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (sessionErrors.length > 0) {
+      setError(sessionErrors[0]);
+      return;
+    }
     if (formData.description.trim().length < 50) {
       setError('Description must be at least 50 characters long.');
       return;
@@ -55,16 +98,28 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
     setError('');
 
     try {
+      // A second click on the warning submits as is; a match with another intern is then held for review
+      if (!copyWarning) {
+        const warning = await api.checkSimilarity(user.internId.trim().toUpperCase(), formData.description);
+        if (warning) {
+          setCopyWarning(warning);
+          return;
+        }
+      }
       const activity = await api.submitActivity({
         internId: user.internId.trim().toUpperCase(),
-        date: todayStr,
-        hours: formData.hours,
-        category: formData.category,
+        date: entryDate,
+        hours: totalMinutes / 60,
+        category: sessions[0].category,
+        sessions,
+        trackedMinutes: trackedMinutes > 0 ? trackedMinutes : undefined,
         description: formData.description,
         proofLink: formData.proof // proofLink field used to store both
       });
       onSuccess(activity);
-      setFormData({ hours: 3, category: ActivityCategory.LEARNING, description: '', proof: '' });
+      setCopyWarning(null);
+      setFormData({ description: '', proof: '' });
+      setSessions([DEFAULT_SESSION]);
     } catch (err: any) {
       setError(err.message || 'Failed to submit activity.');
     } finally {
@@ -77,38 +132,104 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
       <div className="px-10 py-8 bg-slate-50/50 border-b border-slate-100 flex justify-between items-center">
         <div>
           <h3 className="font-black text-slate-900 uppercase tracking-widest text-xs">Log Daily Milestone</h3>
-          <p className="text-[10px] text-slate-400 font-bold uppercase mt-1">Date: {new Date(todayStr).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
-        </div>
-        <div className="px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-[9px] font-black uppercase tracking-widest border border-blue-100">
-          Official Entry
+          {dates.length > 1 ? (
+            <select
+              className="mt-1 -ml-1 bg-transparent text-[10px] text-slate-500 font-bold uppercase outline-none cursor-pointer"
+              value={entryDate}
+              onChange={(e) => setEntryDate(e.target.value)}
+            >
+              {dates.map(date => (
+                <option key={date} value={date}>
+                  Date: {formatDate(date, { weekday: 'long', month: 'long', day: 'numeric' })}{date === todayStr ? ' (Today)' : ' (Missed Day)'}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-[10px] text-slate-400 font-bold uppercase mt-1">Date: {formatDate(entryDate, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+          )}
         </div>
+        {isLate ? (
+          <div className="px-4 py-2 bg-amber-50 text-amber-600 rounded-xl text-[9px] font-black uppercase tracking-widest border border-amber-100" title={`Late entries count once a reviewer approves them. Limit: ${CONFIG.BACKDATE_SETTINGS.MAX_PER_MONTH} per month.`}>
+            Late Entry • Needs Approval
+          </div>
+        ) : (
+          <div className="px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-[9px] font-black uppercase tracking-widest border border-blue-100">
+            Official Entry
+          </div>
+        )}
       </div>
       
       <form onSubmit={handleSubmit} className="p-10 space-y-8">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          <div>
-            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 ml-1">Working Duration</label>
-            <select 
-              className="w-full px-5 py-4 rounded-2xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 transition-all font-bold text-slate-900 appearance-none bg-slate-50"
-              value={formData.hours}
-              onChange={(e) => setFormData({...formData, hours: parseInt(e.target.value)})}
-            >
-              <option value={2}>2 Hours (Minimal)</option>
-              <option value={3}>3+ Hours (Standard)</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 ml-1">Work Classification</label>
-            <select 
-              className="w-full px-5 py-4 rounded-2xl border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 transition-all font-bold text-slate-900 appearance-none bg-slate-50"
-              value={formData.category}
-              onChange={(e) => setFormData({...formData, category: e.target.value as ActivityCategory})}
-            >
-              {Object.values(ActivityCategory).map(cat => (
-                <option key={cat} value={cat}>{cat}</option>
-              ))}
-            </select>
+        <div className="space-y-4">
+          <div className="flex justify-between items-center ml-1">
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">Work Sessions</label>
+            <span className={`text-[10px] font-black uppercase tracking-widest ${sessionErrors.length > 0 ? 'text-amber-500' : 'text-slate-900'}`}>
+              Total: {formatMinutes(totalMinutes)}
+            </span>
           </div>
+          {sessions.map((session, idx) => (
+            <div key={idx} className="flex flex-col md:flex-row gap-3 p-4 rounded-2xl bg-slate-50 border border-slate-100">
+              <select
+                className={fieldClass}
+                value={session.category}
+                onChange={(e) => updateSession(idx, { category: e.target.value as ActivityCategory })}
+              >
+                {Object.values(ActivityCategory).map(cat => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+              {session.start !== undefined ? (
+                <div className="flex items-center gap-2">
+                  <input type="time" step={STEP_MINUTES * 60} className={fieldClass} value={session.start} onChange={(e) => updateSession(idx, { start: e.target.value })} />
+                  <span className="text-slate-300 font-black">→</span>
+                  <input type="time" step={STEP_MINUTES * 60} className={fieldClass} value={session.end} onChange={(e) => updateSession(idx, { end: e.target.value })} />
+                </div>
+              ) : (
+                <select
+                  className={fieldClass}
+                  value={session.minutes}
+                  onChange={(e) => updateSession(idx, { minutes: parseInt(e.target.value) })}
+                >
+                  {DURATION_OPTIONS.map(m => <option key={m} value={m}>{formatMinutes(m)}</option>)}
+                </select>
+              )}
+              <div className="flex gap-2 md:ml-auto">
+                <button
+                  type="button"
+                  onClick={() => updateSession(idx, session.start !== undefined
+                    ? { start: undefined, end: undefined, minutes: Math.max(sessionMinutes(session), STEP_MINUTES) || STEP_MINUTES }
+                    : { start: '09:00', end: '12:00' })}
+                  className="px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600 bg-white border border-slate-200"
+                >
+                  {session.start !== undefined ? 'Use Duration' : 'Use Times'}
+                </button>
+                {sessions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setSessions(sessions.filter((_, i) => i !== idx))}
+                    className="px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50 bg-white border border-slate-200"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSessions([...sessions, { minutes: 60, category: sessions[sessions.length - 1].category }])}
+            className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:underline ml-1"
+          >
+            + Add Session
+          </button>
+          {overTracked && (
+            <p className="text-[9px] font-black uppercase tracking-widest text-red-500 ml-1">
+              Claimed time exceeds the {formatMinutes(trackedMinutes)} tracked by the timer {isLate ? 'that day' : 'today'} — the entry will show an "Over Tracked" badge to you and your reviewers.
+            </p>
+          )}
+          {sessionErrors.map(message => (
+            <p key={message} className="text-[9px] font-black uppercase tracking-widest text-amber-500 ml-1">{message}</p>
+          ))}
         </div>
 
         <div>
@@ -118,7 +239,7 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
             className="w-full px-6 py-5 rounded-[24px] border border-slate-200 outline-none focus:ring-4 focus:ring-blue-50 focus:border-blue-500 h-40 resize-none transition-all font-medium text-slate-800 placeholder:text-slate-300 bg-slate-50"
             placeholder="Detail your primary tasks, obstacles cleared, and specific learning outcomes from today's session..."
             value={formData.description}
-            onChange={(e) => setFormData({...formData, description: e.target.value})}
+            onChange={(e) => { setFormData({...formData, description: e.target.value}); setCopyWarning(null); }}
           />
           <div className="flex justify-between mt-3 px-1">
             <span className={`text-[9px] font-black uppercase tracking-widest ${formData.description.length < 50 ? 'text-amber-500' : 'text-green-500'}`}>
@@ -226,12 +347,25 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({ user, onSuccess }) => {
           </div>
         )}
 
+        {copyWarning && (
+          <div className="p-5 bg-amber-50 text-amber-700 rounded-2xl border border-amber-200 space-y-2">
+            <p className="text-[11px] font-black uppercase tracking-widest">
+              {Math.round(copyWarning.score * 100)}% match with {copyWarning.own ? `your entry for ${copyWarning.date}` : "another intern's entry"}
+            </p>
+            <p className="text-xs font-semibold">
+              Describe what was different about today. {copyWarning.own
+                ? 'If you submit it as is, it still counts, but reviewers will see the match.'
+                : 'If you submit it as is, it will only count once a reviewer approves it.'}
+            </p>
+          </div>
+        )}
+
         <button 
           type="submit" 
-          disabled={loading || formData.description.length < 50}
-          className={`w-full py-5 rounded-[24px] font-black text-xs text-white transition-all uppercase tracking-[0.3em] shadow-xl ${loading || formData.description.length < 50 ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : 'bg-slate-900 hover:bg-blue-600 hover:shadow-blue-500/20 active:scale-95'}`}
+          disabled={loading || formData.description.length < 50 || sessionErrors.length > 0}
+          className={`w-full py-5 rounded-[24px] font-black text-xs text-white transition-all uppercase tracking-[0.3em] shadow-xl ${loading || formData.description.length < 50 || sessionErrors.length > 0 ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : 'bg-slate-900 hover:bg-blue-600 hover:shadow-blue-500/20 active:scale-95'}`}
         >
-          {loading ? 'Transmitting Data...' : 'Submit Official Record'}
+          {loading ? 'Transmitting Data...' : copyWarning ? 'Submit Anyway' : 'Submit Official Record'}
         </button>
       </form>
     </div>
@@ -0,0 +1,49 @@
+
+import React, { useState } from 'react';
+import { SyncReport } from '../services/sheetSchema';
+
+interface SyncReportPanelProps {
+  report: SyncReport;
+}
+
+const VISIBLE_ROWS = 10;
+
+const SyncReportPanel: React.FC<SyncReportPanelProps> = ({ report }) => {
+  const [expanded, setExpanded] = useState(false);
+  const rows = expanded ? report.rejected : report.rejected.slice(0, VISIBLE_ROWS);
+
+  return (
+    <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <p className="text-xs font-bold text-amber-800 uppercase tracking-widest">
+          Sheet Sync: {report.rejected.length} row{report.rejected.length === 1 ? '' : 's'} skipped
+        </p>
+        <p className="text-[10px] font-bold text-amber-600 uppercase">
+          {report.schemaVersion !== undefined && `Schema v${report.schemaVersion} • `}Checked {new Date(report.checkedAt).toLocaleTimeString()}
+        </p>
+      </div>
+
+      {report.warnings.map(w => (
+        <p key={w} className="text-xs font-bold text-amber-700">{w}</p>
+      ))}
+
+      {report.rejected.length > 0 && (
+        <ul className="space-y-1 max-h-60 overflow-y-auto">
+          {rows.map(r => (
+            <li key={`${r.tab}-${r.row}`} className="text-xs text-amber-900">
+              <span className="font-bold uppercase">{r.tab} row {r.row}{r.key && ` (${r.key})`}:</span> {r.reasons.join(' ')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.rejected.length > VISIBLE_ROWS && (
+        <button onClick={() => setExpanded(!expanded)} className="text-[10px] font-bold text-amber-700 uppercase hover:underline">
+          {expanded ? 'Show fewer' : `Show all ${report.rejected.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SyncReportPanel;
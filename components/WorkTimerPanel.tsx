@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { ActivityCategory, WorkSession } from '../types';
+import { WorkTimer, UnloggedDay } from '../services/workTimer';
+import { formatMinutes } from '../utils/sessions';
+import { formatDate } from '../utils/dates';
+
+interface WorkTimerPanelProps {
+  timer: WorkTimer;
+  onUse: (sessions: WorkSession[], trackedMinutes: number, date?: string) => void; // date is set for an earlier, unlogged day
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+const WorkTimerPanel: React.FC<WorkTimerPanelProps> = ({ timer, onUse }) => {
+  const [state, setState] = useState(() => timer.read());
+  const [, setTick] = useState(0);
+  const running = state.startedAt !== null;
+
+  useEffect(() => {
+    setState(timer.read());
+    return timer.subscribe(() => setState(timer.read()));
+  }, [timer]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = window.setInterval(() => setTick(t => t + 1), 1000);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  const elapsed = timer.elapsedMs(state);
+  const live = { ...state.trackedMs };
+  if (running) live[state.category] = (live[state.category] || 0) + Date.now() - (state.startedAt as number);
+  const breakdown = (Object.entries(live) as [ActivityCategory, number][]).filter(([, ms]) => ms >= 60000);
+
+  const handleStop = () => {
+    timer.pause();
+    onUse(timer.toSessions(), timer.trackedMinutes());
+  };
+
+  return (
+    <div className="bg-slate-900 text-white p-12 rounded-[48px] shadow-xl space-y-8">
+      <div className="flex justify-between items-center">
+        <h3 className="font-black uppercase tracking-[0.3em] text-xs">Work Timer</h3>
+        <div className={`w-2 h-2 rounded-full ${running ? 'bg-green-400 animate-pulse' : 'bg-slate-600'}`}></div>
+      </div>
+
+      <div className="text-5xl font-black tracking-tighter tabular-nums">{formatClock(elapsed)}</div>
+
+      <select
+        className="w-full px-5 py-4 rounded-2xl border border-slate-700 outline-none bg-slate-800 font-bold text-white text-sm"
+        value={state.category}
+        onChange={(e) => timer.setCategory(e.target.value as ActivityCategory)}
+      >
+        {Object.values(ActivityCategory).map(cat => <option key={cat} value={cat}>{cat}</option>)}
+      </select>
+
+      <div className="grid grid-cols-2 gap-3">
+        {running ? (
+          <TimerButton label="Pause" onClick={() => timer.pause()} className="bg-amber-500 hover:bg-amber-400" />
+        ) : (
+          <TimerButton label={elapsed > 0 ? 'Resume' : 'Start'} onClick={() => timer.start()} className="bg-blue-600 hover:bg-blue-500" />
+        )}
+        <TimerButton label="Stop & Log" onClick={handleStop} disabled={elapsed < 60000} className="bg-white text-slate-900 hover:bg-slate-200" />
+      </div>
+
+      {breakdown.length > 0 && (
+        <ul className="space-y-2 pt-8 border-t border-slate-800">
+          {breakdown.map(([category, ms]) => (
+            <li key={category} className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span>{category}</span>
+              <span>{formatMinutes(Math.floor(ms / 60000))}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(state.unlogged || []).map((day: UnloggedDay) => {
+        const minutes = Math.floor(Object.values(day.trackedMs).reduce((acc: number, ms) => acc + (ms || 0), 0) / 60000);
+        return (
+          <div key={day.date} className="flex items-center justify-between gap-3 pt-6 border-t border-slate-800">
+            <div className="text-[10px] font-black uppercase tracking-widest text-amber-400">
+              Unlogged • {formatDate(day.date, { day: 'numeric', month: 'short' })} • {formatMinutes(minutes)}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => onUse(timer.toSessions(day.date), minutes, day.date)} className="text-[10px] font-black uppercase tracking-widest text-white hover:text-blue-400">Log</button>
+              <button
+                onClick={() => { if (window.confirm('Discard the time tracked on this day?')) timer.clearDay(day.date); }}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {elapsed > 0 && !running && (
+        <button
+          onClick={() => { if (window.confirm('Discard the tracked time for today?')) timer.reset(); }}
+          className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400"
+        >
+          Reset Timer
+        </button>
+      )}
+    </div>
+  );
+};
+
+const TimerButton = ({ label, onClick, disabled, className }: any) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30 ${className}`}
+  >
+    {label}
+  </button>
+);
+
+export default WorkTimerPanel;
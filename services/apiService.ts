@@ -1,157 +1,523 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { User, Activity, UserRole } from '../types';
-import { MOCK_INTERNS, MOCK_ADMIN, INITIAL_ACTIVITIES } from './mockData';
+import { User, UserRole, Activity, ActivityRevision, QualityAssessment, SimilarityMatch, SimilaritySource, SimilarityWarning, Cohort, EditableActivityField, FieldChange, Permission, ReviewStatus, LeaveRequest, LeaveStatus, Holiday, Certificate, CertificateCheck } from '../types';
+import { DataStore } from './dataStore';
+import { SyncReport } from './sheetSchema';
+import { createDataStore } from './createDataStore';
 import { CONFIG } from './config';
+import { SubmissionOutbox, OutboxItem } from './outbox';
+import { QualityScorer, createQualityScorer } from './qualityScorer';
+import { SimilarityProvider, createSimilarityProvider } from './similarityProvider';
+import { hasPermission, canAccessIntern, assertPermission } from './permissions';
+import { isWithdrawn, isWithinEditWindow, calculateInternEligibility, countsTowardEligibility, getApprovedLeaveDates } from '../utils/logic';
+import { generateCertificateCode, normalizeCertificateCode, certificateHash } from '../utils/certificate';
+import { validateIntern, isActive } from '../utils/roster';
+import { programToday, daysBetween, isIsoDate } from '../utils/dates';
+import { ScorableActivity, overallScore, detectInjection } from '../utils/quality';
+import { validateSessions, summarizeSessions, sessionMinutes } from '../utils/sessions';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MIN_DESCRIPTION_LENGTH = 50;
+
+const assertDescription = (description: string) => {
+  if (description.trim().length < MIN_DESCRIPTION_LENGTH) {
+    throw new Error(`Description must be at least ${MIN_DESCRIPTION_LENGTH} characters long.`);
+  }
+};
+
+// What is stored on the entry, which its intern can read: no trace of whose text it matched
+const anonymous = (source: SimilaritySource | undefined): SimilarityMatch | undefined =>
+  source && { score: source.score, own: source.own, date: source.date };
 
 class InternApiService {
-  private CACHE_INTERNS = 'cial_vault_interns';
-  private CACHE_ACTIVITIES = 'cial_vault_activities';
-
-  private async fetchAllData(): Promise<{ interns: User[], activities: Activity[] }> {
-    const sheetUrl = (CONFIG.GOOGLE_SHEET_API_URL || "").trim();
-    const isMockMode = !sheetUrl || sheetUrl.includes("PASTE_YOUR_URL_HERE");
-
-    // Pre-load from cache for safety
-    const cachedInterns = localStorage.getItem(this.CACHE_INTERNS);
-    const cachedActivities = localStorage.getItem(this.CACHE_ACTIVITIES);
-    
-    let interns = cachedInterns ? JSON.parse(cachedInterns) : MOCK_INTERNS;
-    let activities = cachedActivities ? JSON.parse(cachedActivities) : INITIAL_ACTIVITIES;
-
-    if (!isMockMode) {
-      try {
-        const response = await fetch(sheetUrl, { cache: 'no-store' });
-        if (!response.ok) throw new Error(`Cloud Sync failed`);
-        
-        const json = await response.json();
-        if (json.error) throw new Error(json.error);
-
-        const getValueByFuzzyKey = (obj: any, target: string) => {
-          const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-          const targetNorm = normalize(target);
-          const key = Object.keys(obj).find(k => normalize(k).includes(targetNorm));
-          return key ? obj[key] : null;
-        };
-
-        if (json.interns && json.interns.length > 0) {
-          const remoteInterns = json.interns.map((item: any, index: number) => {
-            const name = getValueByFuzzyKey(item, "Student Name") || getValueByFuzzyKey(item, "Full Name") || item["name"];
-            const id = getValueByFuzzyKey(item, "Intern ID") || getValueByFuzzyKey(item, "ID");
-            return {
-              id: `sheet-${index}-${id}`,
-              name: name ? String(name).trim() : "Unknown",
-              internId: id ? String(id).trim().toUpperCase() : "",
-              email: id ? `${String(id).toLowerCase()}@cial.org` : "unknown@cial.org",
-              role: UserRole.INTERN,
-              joiningDate: '2024-05-01'
-            };
-          }).filter((i: any) => i.internId !== "");
-
-          if (remoteInterns.length > 0) {
-            interns = remoteInterns;
-            localStorage.setItem(this.CACHE_INTERNS, JSON.stringify(interns));
-          }
-        }
-
-        if (json.activities && json.activities.length >= 0) {
-          const remoteActivities = json.activities.map((a: any) => ({
-            ...a,
-            hours: Number(a.hours || 0),
-            qualityScore: Number(a.qualityScore || 5)
-          }));
-          
-          // Only overwrite if we actually got valid results back to prevent "vanishing"
-          if (json.activities.length > 0) {
-            activities = remoteActivities;
-            localStorage.setItem(this.CACHE_ACTIVITIES, JSON.stringify(activities));
-          }
-        }
-
-      } catch (error: any) {
-        console.warn("⚠️ Cloud connection failed. Using local vault data.", error.message);
-      }
-    }
+  private outbox: SubmissionOutbox;
+  private session: User | null = null;
+
+  constructor(
+    private store: DataStore = createDataStore(),
+    private scorer: QualityScorer = createQualityScorer(),
+    private similarity: SimilarityProvider = createSimilarityProvider()
+  ) {
+    this.outbox = new SubmissionOutbox(() => this.store);
+  }
 
-    return { interns, activities };
+  /** Swap the backing store, e.g. a MemoryStore seeded from JSON in tests. */
+  useStore(store: DataStore) {
+    this.store = store;
   }
 
+  /** Swap the quality scorer, e.g. a HeuristicScorer for offline runs. */
+  useScorer(scorer: QualityScorer) {
+    this.scorer = scorer;
+  }
+
+  useSimilarityProvider(provider: SimilarityProvider) {
+    this.similarity = provider;
+  }
+
+  /** Signed-in account every scoped read and write is checked against. */
+  setSession(user: User | null) {
+    this.session = user;
+  }
+
+  private requireSession(): User {
+    if (!this.session) throw new Error('Access denied: not signed in.');
+    return this.session;
+  }
+
+  /** Interns the current session may see, with the cohorts needed to resolve mentor assignments. */
+  private async visibleInterns(): Promise<{ viewer: User; interns: User[]; cohorts: Cohort[] }> {
+    const viewer = this.requireSession();
+    const [interns, cohorts] = await Promise.all([this.store.listInterns(), this.store.listCohorts()]);
+    if (hasPermission(viewer, Permission.VIEW_ALL_INTERNS)) return { viewer, interns, cohorts };
+    return { viewer, interns: interns.filter(i => canAccessIntern(viewer, i, cohorts)), cohorts };
+  }
+
+  /** Intern IDs whose records the current session may read. */
+  private async readableInternIds(): Promise<{ viewer: User; allowed: Set<string>; seesAll: boolean }> {
+    const { viewer, interns } = await this.visibleInterns();
+    const allowed = new Set(interns.map(i => i.internId));
+    // Interns can always read their own records, even before the roster lists them
+    if (viewer.role === UserRole.INTERN) allowed.add(viewer.internId);
+    return { viewer, allowed, seesAll: hasPermission(viewer, Permission.VIEW_ALL_INTERNS) };
+  }
+
+  /** Public name list for the sign-in picker. Staff are left out; they type their name and ID. */
   async getInternDirectory(): Promise<{ name: string; id: string }[]> {
-    const { interns } = await this.fetchAllData();
-    const list = interns.map(i => ({ name: i.name, id: i.internId }));
-    if (!list.find(i => i.id === MOCK_ADMIN.internId)) {
-      list.unshift({ name: MOCK_ADMIN.name, id: MOCK_ADMIN.internId });
-    }
-    return list;
+    const interns = await this.store.listInterns();
+    return interns.filter(i => isActive(i) && i.role === UserRole.INTERN).map(i => ({ name: i.name, id: i.internId }));
   }
 
-  async loginByName(name: string, internId: string): Promise<User | null> {
+  /** Any account that can sign in, staff included. Deactivated interns can't, so they resolve to null. */
+  async findAccount(internId: string): Promise<User | null> {
     const normalizedId = internId.toUpperCase().trim();
-    if (normalizedId === MOCK_ADMIN.internId) return MOCK_ADMIN;
-    const { interns } = await this.fetchAllData();
-    return interns.find(u => u.internId.toUpperCase() === normalizedId) || null;
+    const [staff, interns] = await Promise.all([this.store.listStaff(), this.store.listInterns()]);
+    return [...staff, ...interns.filter(isActive)].find(u => u.internId.toUpperCase() === normalizedId) || null;
   }
 
   async getActivities(internId?: string): Promise<Activity[]> {
-    const { activities } = await this.fetchAllData();
-    if (internId) return activities.filter(a => a.internId === internId);
-    return activities;
+    const { allowed, seesAll } = await this.readableInternIds();
+    if (internId && !allowed.has(internId)) throw new Error(`Access denied: ${internId} is outside your scope.`);
+
+    const stored = await this.store.listActivities(internId ? { internId } : undefined);
+    // Unconfirmed submissions stay visible even when the remote snapshot doesn't have them yet
+    const known = new Set(stored.map(a => a.id));
+    const queued = this.outbox.unsynced(internId).map(i => i.activity).filter(a => !known.has(a.id));
+    const all = [...stored, ...queued];
+    return seesAll ? all : all.filter(a => allowed.has(a.internId));
   }
 
-  async submitActivity(activity: Omit<Activity, 'id' | 'timestamp' | 'qualityScore'>): Promise<Activity> {
-    const currentActivities = await this.getActivities(activity.internId);
-    if (currentActivities.find(a => a.date === activity.date)) throw new Error("A record for today already exists.");
+  async submitActivity(activity: Omit<Activity, 'id' | 'timestamp' | 'qualityScore' | 'quality' | 'similarity' | 'isLate'>): Promise<Activity> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.SUBMIT_ACTIVITY);
+    if (activity.internId !== viewer.internId) throw new Error('Access denied: you can only submit your own activity.');
 
-    let qualityScore = 5;
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `Rate the following work description on a scale of 1-10: "${activity.description}"`,
-            config: { 
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: { score: { type: Type.NUMBER } },
-                    required: ["score"]
-                }
-            }
-        });
-        const jsonStr = response.text?.trim();
-        if (jsonStr) qualityScore = JSON.parse(jsonStr).score || 5;
-    } catch (e) {}
+    assertDescription(activity.description);
+    const todayStr = programToday();
+    const daysBack = daysBetween(activity.date, todayStr);
+    if (isNaN(daysBack) || daysBack < 0) throw new Error('Entries cannot be logged for a future date.');
+    if (daysBack > CONFIG.BACKDATE_SETTINGS.MAX_DAYS_BACK) {
+      throw new Error(`Missed days can only be logged up to ${CONFIG.BACKDATE_SETTINGS.MAX_DAYS_BACK} days late.`);
+    }
+
+    const currentActivities = (await this.getActivities(activity.internId)).filter(a => !isWithdrawn(a));
+    if (currentActivities.find(a => a.date === activity.date)) {
+      throw new Error(activity.date === todayStr ? "A record for today already exists." : `A record for ${activity.date} already exists.`);
+    }
+    let { hours, category, sessions } = activity;
+    if (sessions && sessions.length > 0) {
+      const errors = validateSessions(sessions);
+      if (errors.length > 0) throw new Error(errors[0]);
+      sessions = sessions.map(s => ({ ...s, minutes: sessionMinutes(s) }));
+      ({ hours, category } = summarizeSessions(sessions));
+    } else if (!(hours > 0) || hours > CONFIG.SESSION_SETTINGS.MAX_DAILY_HOURS) {
+      throw new Error(`Hours must be between 0 and ${CONFIG.SESSION_SETTINGS.MAX_DAILY_HOURS}.`);
+    }
+
+    const isLate = daysBack > 0;
+    if (isLate) {
+      const month = activity.date.slice(0, 7);
+      const lateThisMonth = currentActivities.filter(a => a.isLate && a.date.slice(0, 7) === month).length;
+      if (lateThisMonth >= CONFIG.BACKDATE_SETTINGS.MAX_PER_MONTH) {
+        throw new Error(`You have used all ${CONFIG.BACKDATE_SETTINGS.MAX_PER_MONTH} late entries for this month.`);
+      }
+    }
+
+    const quality = await this.assessQuality({ ...activity, hours, category });
+    const similarity = anonymous(await this.findSimilar(activity.description, activity.internId));
 
     const newActivity: Activity = {
       ...activity,
+      hours,
+      category,
+      sessions: sessions && sessions.length > 0 ? sessions : undefined,
+      // Timer totals only describe today, so they are dropped from late entries
+      trackedMinutes: isLate ? undefined : activity.trackedMinutes,
       id: `act-${Date.now()}`,
       timestamp: new Date().toISOString(),
-      qualityScore
+      qualityScore: quality.scores ? overallScore(quality.scores) : undefined,
+      quality,
+      similarity,
+      isLate: isLate || undefined
     };
 
-    // Save locally immediately to prevent loss
-    const stored = localStorage.getItem(this.CACHE_ACTIVITIES);
-    const list = stored ? JSON.parse(stored) : [];
-    list.push(newActivity);
-    localStorage.setItem(this.CACHE_ACTIVITIES, JSON.stringify(list));
-
-    const sheetUrl = (CONFIG.GOOGLE_SHEET_API_URL || "").trim();
-    if (sheetUrl && !sheetUrl.includes("PASTE_YOUR_URL_HERE")) {
-      fetch(sheetUrl, {
-        method: 'POST',
-        mode: 'no-cors', 
-        headers: { 'Content-Type': 'text/plain' },
-        body: JSON.stringify(newActivity)
-      }).catch(err => console.error("Cloud Push Failed:", err));
+    this.outbox.enqueue(newActivity);
+    return newActivity;
+  }
+
+  /**
+   * Rubric scores and feedback; a failure is recorded as such so reviewers know to judge it themselves.
+   * Descriptions that look written to steer the scorer are flagged whatever the scorer returns.
+   */
+  private async assessQuality(activity: ScorableActivity): Promise<QualityAssessment> {
+    const detected = detectInjection(activity.description);
+    const notes = detected.notes.length > 0 ? detected.notes : undefined;
+    const base = { scorer: this.scorer.name, assessedAt: new Date().toISOString() };
+    try {
+      const { scores, feedback, flags = [] } = await this.scorer.score(activity);
+      const all = [...detected.flags, ...flags];
+      return { status: 'scored', scores, feedback, flags: all.length > 0 ? all : undefined, notes, ...base };
+    } catch (e: any) {
+      console.warn("Quality assessment failed", e);
+      return { status: 'failed', error: e?.message || 'Assessment unavailable', flags: detected.flags.length > 0 ? detected.flags : undefined, notes, ...base };
     }
+  }
 
-    return newActivity;
+  /** Pre-submit check, so an intern can rewrite a near-copy before it is flagged. */
+  async checkSimilarity(internId: string, description: string): Promise<SimilarityWarning | null> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.SUBMIT_ACTIVITY);
+    if (internId !== viewer.internId) throw new Error('Access denied: you can only check your own activity.');
+    const match = await this.findSimilar(description, internId);
+    if (!match || match.score < CONFIG.SIMILARITY.THRESHOLD) return null;
+    return { score: match.score, own: match.own, date: match.own ? match.date : undefined };
+  }
+
+  /** Whose entry a stored match points at. Reviewers only: entries themselves keep other interns anonymous. */
+  async getSimilaritySource(activityId: string): Promise<SimilaritySource | null> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.REVIEW_ACTIVITY);
+    const activity = (await this.getActivities()).find(a => a.id === activityId);
+    if (!activity) throw new Error(`Access denied: activity ${activityId} is outside your scope.`);
+    return (await this.findSimilar(activity.description, activity.internId, activity.id)) || null;
+  }
+
+  /**
+   * Closest earlier description by anyone. Copies between interns only show up against the
+   * whole log, so this reads the store unscoped; callers decide how much of the match to reveal.
+   * Detection problems never block a submission.
+   */
+  private async findSimilar(description: string, internId: string, excludeId?: string): Promise<SimilaritySource | undefined> {
+    try {
+      const stored = await this.store.listActivities();
+      const known = new Set(stored.map(a => a.id));
+      const queued = this.outbox.unsynced().map(i => i.activity).filter(a => !known.has(a.id));
+      const candidates = [...stored, ...queued]
+        .filter(a => !isWithdrawn(a) && a.id !== excludeId)
+        .map(a => ({ id: a.id, internId: a.internId, date: a.date, text: a.description }));
+      const best = await this.similarity.closest(description, candidates);
+      if (!best || best.score === 0) return undefined;
+      const { id, date } = best.candidate;
+      return { score: Math.round(best.score * 100) / 100, own: best.candidate.internId === internId, date, activityId: id, internId: best.candidate.internId };
+    } catch (e) {
+      console.warn("Similarity check failed", e);
+      return undefined;
+    }
+  }
+
+  getUnsyncedSubmissions(internId?: string): OutboxItem[] {
+    return this.outbox.unsynced(internId);
+  }
+
+  onSyncChange(listener: () => void): () => void {
+    return this.outbox.subscribe(listener);
+  }
+
+  retrySync(): Promise<void> {
+    return this.outbox.flush(true);
+  }
+
+  async updateActivity(id: string, changes: Partial<Activity>): Promise<Activity> {
+    assertPermission(this.requireSession(), Permission.REVIEW_ACTIVITY);
+    const [existing] = await this.getActivities().then(list => list.filter(a => a.id === id));
+    if (!existing) throw new Error(`Access denied: activity ${id} is outside your scope.`);
+    if (isWithdrawn(existing)) throw new Error('This entry has been withdrawn.');
+    return this.store.updateActivity(id, changes);
+  }
+
+  /** Corrects an entry, recording each changed field as a revision. */
+  async editActivity(id: string, changes: Partial<Pick<Activity, EditableActivityField>>, note = ''): Promise<Activity> {
+    const { viewer, existing } = await this.editableActivity(id);
+    if (changes.description !== undefined) assertDescription(changes.description);
+    if (changes.hours !== undefined && (!(changes.hours > 0) || changes.hours > CONFIG.SESSION_SETTINGS.MAX_DAILY_HOURS)) {
+      throw new Error(`Hours must be between 0 and ${CONFIG.SESSION_SETTINGS.MAX_DAILY_HOURS}.`);
+    }
+    if (existing.sessions && existing.sessions.length > 0 && changes.hours !== undefined && changes.hours !== existing.hours) {
+      throw new Error('Hours on this entry come from its work sessions and cannot be edited directly.');
+    }
+
+    const fields: EditableActivityField[] = ['hours', 'category', 'description', 'proofLink'];
+    const diff: FieldChange[] = fields
+      .filter(field => changes[field] !== undefined && changes[field] !== existing[field])
+      .map(field => ({ field, from: existing[field] ?? null, to: changes[field] }));
+    if (diff.length === 0) throw new Error('Nothing to change.');
+
+    const update: Partial<Activity> = Object.fromEntries(diff.map(c => [c.field, c.to]));
+    // An intern's correction goes back to the reviewers; staff edits keep the current decision
+    if (viewer.internId === existing.internId) update.review = undefined;
+    // Every editable field is scored, so any edit is assessed again; copy matches follow the text
+    update.quality = await this.assessQuality({ ...existing, ...update });
+    update.qualityScore = update.quality.scores ? overallScore(update.quality.scores) : undefined;
+    if (update.description !== undefined) update.similarity = anonymous(await this.findSimilar(update.description, existing.internId, existing.id));
+    return this.store.updateActivity(id, {
+      ...update,
+      revisions: [...(existing.revisions || []), this.revision(viewer, 'edit', diff, note)]
+    });
+  }
+
+  /** Soft-deletes an entry: it stays in the store with its history but no longer counts. */
+  async withdrawActivity(id: string, note = ''): Promise<Activity> {
+    const { viewer, existing } = await this.editableActivity(id);
+    return this.store.updateActivity(id, {
+      withdrawn: true,
+      revisions: [...(existing.revisions || []), this.revision(viewer, 'withdraw', [{ field: 'withdrawn', from: false, to: true }], note)]
+    });
+  }
+
+  private async editableActivity(id: string): Promise<{ viewer: User; existing: Activity }> {
+    const viewer = this.requireSession();
+    const [existing] = await this.getActivities().then(list => list.filter(a => a.id === id));
+    if (!existing) throw new Error(`Access denied: activity ${id} is outside your scope.`);
+    if (isWithdrawn(existing)) throw new Error('This entry has been withdrawn.');
+    if (this.outbox.unsynced().some(i => i.activity.id === id)) {
+      throw new Error('This entry is still syncing. Try again once it has been saved.');
+    }
+
+    if (!hasPermission(viewer, Permission.EDIT_ANY_ACTIVITY)) {
+      assertPermission(viewer, Permission.SUBMIT_ACTIVITY);
+      if (existing.internId !== viewer.internId) throw new Error('Access denied: you can only change your own activity.');
+      if (!isWithinEditWindow(existing)) {
+        throw new Error(`Entries can only be changed within ${CONFIG.EDIT_SETTINGS.INTERN_GRACE_HOURS} hours of submitting.`);
+      }
+    }
+    return { viewer, existing };
+  }
+
+  private revision(viewer: User, action: ActivityRevision['action'], changes: FieldChange[], note: string): ActivityRevision {
+    return { at: new Date().toISOString(), by: viewer.internId, action, changes, note: note.trim() || undefined };
+  }
+
+  async reviewActivity(id: string, status: ReviewStatus, comment = ''): Promise<Activity> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.REVIEW_ACTIVITY);
+    if (status !== ReviewStatus.APPROVED && !comment.trim()) {
+      throw new Error('Add a comment so the intern knows what to fix.');
+    }
+    return this.updateActivity(id, {
+      review: {
+        status,
+        reviewerId: viewer.internId,
+        comment: comment.trim() || undefined,
+        reviewedAt: new Date().toISOString()
+      }
+    });
+  }
+
+  async getLeaveRequests(internId?: string): Promise<LeaveRequest[]> {
+    const { allowed, seesAll } = await this.readableInternIds();
+    if (internId && !allowed.has(internId)) throw new Error(`Access denied: ${internId} is outside your scope.`);
+    const requests = await this.store.listLeaveRequests(internId);
+    return seesAll ? requests : requests.filter(l => allowed.has(l.internId));
+  }
+
+  async requestLeave(request: Pick<LeaveRequest, 'startDate' | 'endDate' | 'reason' | 'attachment'>): Promise<LeaveRequest> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.REQUEST_LEAVE);
+    if (!request.startDate || !request.endDate || request.endDate < request.startDate) {
+      throw new Error('Choose a valid date range.');
+    }
+    if (!request.reason.trim()) throw new Error('Add a reason for the leave.');
+
+    const existing = await this.store.listLeaveRequests(viewer.internId);
+    const overlapping = existing.find(l =>
+      l.status !== LeaveStatus.REJECTED && l.startDate <= request.endDate && l.endDate >= request.startDate
+    );
+    if (overlapping) throw new Error(`Overlaps an existing request (${overlapping.startDate} → ${overlapping.endDate}).`);
+
+    return this.store.createLeaveRequest({
+      ...request,
+      reason: request.reason.trim(),
+      id: `leave-${Date.now()}`,
+      internId: viewer.internId,
+      status: LeaveStatus.PENDING,
+      submittedAt: new Date().toISOString()
+    });
+  }
+
+  async decideLeave(id: string, status: LeaveStatus.APPROVED | LeaveStatus.REJECTED, comment = ''): Promise<LeaveRequest> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.APPROVE_LEAVE);
+    const [existing] = await this.getLeaveRequests().then(list => list.filter(l => l.id === id));
+    if (!existing) throw new Error(`Access denied: leave request ${id} is outside your scope.`);
+    if (status === LeaveStatus.REJECTED && !comment.trim()) {
+      throw new Error('Add a comment explaining the rejection.');
+    }
+    return this.store.updateLeaveRequest(id, {
+      status,
+      reviewerId: viewer.internId,
+      decidedAt: new Date().toISOString(),
+      decisionComment: comment.trim() || undefined
+    });
+  }
+
+  async getHolidays(): Promise<Holiday[]> {
+    this.requireSession();
+    const holidays = await this.store.listHolidays();
+    return [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveHolidays(holidays: Holiday[]): Promise<void> {
+    assertPermission(this.requireSession(), Permission.MANAGE_CONFIG);
+    const byDate = new Map<string, Holiday>();
+    holidays.forEach(h => {
+      if (!isIsoDate(h.date)) throw new Error(`Invalid holiday date: ${h.date}`);
+      byDate.set(h.date, { date: h.date, name: h.name.trim() || 'Holiday' });
+    });
+    return this.store.saveHolidays(Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  /** Rejected sheet rows and sync warnings from the last pull. */
+  async getSyncReport(): Promise<SyncReport | null> {
+    assertPermission(this.requireSession(), Permission.MANAGE_CONFIG);
+    return this.store.getSyncReport();
+  }
+
+  async getCertificates(internId?: string): Promise<Certificate[]> {
+    const { allowed, seesAll } = await this.readableInternIds();
+    if (internId && !allowed.has(internId)) throw new Error(`Access denied: ${internId} is outside your scope.`);
+    const certificates = await this.store.listCertificates(internId);
+    return seesAll ? certificates : certificates.filter(c => allowed.has(c.internId));
+  }
+
+  /** Eligibility is re-checked against the stored records, not whatever the dashboard last computed. */
+  async issueCertificate(internId: string): Promise<Certificate> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.ISSUE_CERTIFICATE);
+    const { interns, cohorts } = await this.visibleInterns();
+    const intern = interns.find(i => i.internId === internId);
+    if (!intern) throw new Error(`Access denied: ${internId} is outside your scope.`);
+
+    const existing = await this.store.listCertificates(internId);
+    const active = existing.find(c => !c.revokedAt);
+    if (active) throw new Error(`${intern.name} already holds certificate ${active.code}.`);
+
+    const [activities, leave, holidays] = await Promise.all([
+      this.store.listActivities({ internId }), this.store.listLeaveRequests(internId), this.store.listHolidays()
+    ]);
+    const cohort = cohorts.find(c => c.id === intern.cohortId);
+    const eligibility = calculateInternEligibility(intern, activities, cohort, {
+      excusedDates: getApprovedLeaveDates(internId, leave),
+      holidayDates: holidays.map(h => h.date)
+    });
+    if (!eligibility.isEligible) throw new Error(`${intern.name} is not eligible yet: ${eligibility.reasons.join('; ')}`);
+
+    // Same window the eligibility check used, so the printed hours and dates agree with the active-day count
+    const counted = activities
+      .filter(a => countsTowardEligibility(a) && a.date >= eligibility.windowStart && a.date <= eligibility.windowEnd)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const draft: Omit<Certificate, 'hash'> = {
+      id: `cert-${Date.now()}`,
+      code: generateCertificateCode(),
+      internId,
+      internName: intern.name,
+      cohortName: cohort?.name,
+      startDate: eligibility.windowStart,
+      endDate: counted[counted.length - 1].date,
+      activeDays: eligibility.activeDays,
+      totalHours: Math.round(counted.reduce((acc, a) => acc + (Number(a.hours) || 0), 0) * 100) / 100,
+      issuedAt: new Date().toISOString(),
+      issuedBy: viewer.internId
+    };
+    return this.store.createCertificate({ ...draft, hash: await certificateHash(draft) });
+  }
+
+  async revokeCertificate(id: string, reason: string): Promise<Certificate> {
+    const viewer = this.requireSession();
+    assertPermission(viewer, Permission.ISSUE_CERTIFICATE);
+    const [existing] = await this.getCertificates().then(list => list.filter(c => c.id === id));
+    if (!existing) throw new Error(`Access denied: certificate ${id} is outside your scope.`);
+    if (existing.revokedAt) throw new Error(`Certificate ${existing.code} is already revoked.`);
+    if (!reason.trim()) throw new Error('Add a reason for the revocation.');
+    return this.store.updateCertificate(id, {
+      revokedAt: new Date().toISOString(),
+      revokedBy: viewer.internId,
+      revocationReason: reason.trim()
+    });
+  }
+
+  /** Public lookup for the verification page; needs no session. */
+  async verifyCertificate(code: string): Promise<CertificateCheck> {
+    const normalized = normalizeCertificateCode(code);
+    const certificate = (await this.store.listCertificates()).find(c => c.code === normalized);
+    if (!certificate) return { status: 'not-found' };
+    const { hash, ...fields } = certificate;
+    if (hash !== await certificateHash(fields)) return { status: 'tampered' };
+    return { status: certificate.revokedAt ? 'revoked' : 'valid', certificate };
   }
 
   async getAllInterns(): Promise<User[]> {
-    const { interns } = await this.fetchAllData();
+    const { interns } = await this.visibleInterns();
     return interns;
   }
+
+  /** Adds or edits one intern. `isNew` guards against silently overwriting an existing ID. */
+  async saveIntern(intern: User, isNew: boolean): Promise<User> {
+    const [saved] = await this.saveRoster([intern], isNew);
+    return saved;
+  }
+
+  /** Commits a reviewed roster import in one write. */
+  async importRoster(interns: User[]): Promise<User[]> {
+    return this.saveRoster(interns, false);
+  }
+
+  async setInternActive(internId: string, active: boolean): Promise<User> {
+    assertPermission(this.requireSession(), Permission.MANAGE_ROSTER);
+    const existing = (await this.store.listInterns()).find(i => i.internId === internId);
+    if (!existing) throw new Error(`Intern ${internId} not found.`);
+    return this.saveIntern({ ...existing, active: active ? undefined : false }, false);
+  }
+
+  private async saveRoster(interns: User[], rejectExisting: boolean): Promise<User[]> {
+    assertPermission(this.requireSession(), Permission.MANAGE_ROSTER);
+    const [staff, current, cohorts] = await Promise.all([this.store.listStaff(), this.store.listInterns(), this.store.listCohorts()]);
+    const staffIds = new Set(staff.map(s => s.internId));
+    const currentIds = new Set(current.map(i => i.internId));
+    const normalized = interns.map(i => ({
+      ...i,
+      internId: i.internId.trim().toUpperCase(),
+      name: i.name.trim(),
+      email: i.email.trim().toLowerCase(),
+      role: UserRole.INTERN
+    }));
+    const seen = new Set<string>();
+    normalized.forEach(intern => {
+      const errors = validateIntern(intern, cohorts);
+      if (staffIds.has(intern.internId)) errors.push('ID belongs to a staff account.');
+      if (rejectExisting && currentIds.has(intern.internId)) errors.push('ID is already taken.');
+      if (seen.has(intern.internId)) errors.push('Duplicate intern ID.');
+      seen.add(intern.internId);
+      if (errors.length > 0) throw new Error(`${intern.internId || 'New intern'}: ${errors.join(' ')}`);
+    });
+    await this.store.saveInterns(normalized);
+    return normalized;
+  }
+
+  async getCohorts(): Promise<Cohort[]> {
+    const { viewer, interns, cohorts } = await this.visibleInterns();
+    if (hasPermission(viewer, Permission.VIEW_ALL_INTERNS)) return cohorts;
+    const cohortIds = new Set(interns.map(i => i.cohortId));
+    if (viewer.cohortId) cohortIds.add(viewer.cohortId);
+    return cohorts.filter(c => cohortIds.has(c.id) || c.mentorIds.includes(viewer.internId));
+  }
 }
 
 export const api = new InternApiService();
@@ -0,0 +1,193 @@
+import { User, UserRole, Credential } from '../types';
+import { api } from './apiService';
+import { CONFIG } from './config';
+import { OtpSender, createOtpSender } from './otpSender';
+import { randomHex, hashSecret, hmacSha256Hex, safeEqual, toBase64Url, fromBase64Url } from '../utils/crypto';
+
+export interface SessionClaims {
+  sub: string; // internId
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+const DEVICE_KEY = 'cial_auth_device_key';
+// Same key the store cache used, so PINs already set on this device keep working
+const CREDENTIALS_KEY = 'cial_vault_credentials';
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+class AuthService {
+  private sender: OtpSender = createOtpSender();
+
+  /** Replace the one-time code transport, e.g. with a real mailer. */
+  useSender(sender: OtpSender) {
+    this.sender = sender;
+  }
+
+  /** Where one-time codes go: the email on file, or the console in dev. */
+  get codeDelivery(): OtpSender['delivery'] {
+    return this.sender.delivery;
+  }
+
+  /** Whether this device holds a PIN for the account. */
+  hasPin(internId: string): boolean {
+    return !!this.getCredential(internId)?.pinHash;
+  }
+
+  /** Step one: the name must belong to the account behind the ID. */
+  async identify(name: string, internId: string): Promise<{ user: User; hasPin: boolean }> {
+    const user = await api.findAccount(internId);
+    if (!user || normalizeName(user.name) !== normalizeName(name)) {
+      throw new Error('Verification failed. The ID provided does not match the selected intern.');
+    }
+    const credential = this.getCredential(user.internId);
+    this.assertNotLocked(credential);
+    return { user, hasPin: !!credential?.pinHash };
+  }
+
+  async requestCode(user: User): Promise<void> {
+    this.assertNotLocked(this.getCredential(user.internId));
+    await this.sender.send(user);
+  }
+
+  async loginWithCode(user: User, code: string): Promise<string> {
+    const credential = this.getCredential(user.internId);
+    this.assertNotLocked(credential);
+    if (!(await this.sender.verify(user, code))) {
+      this.recordFailure(user.internId, credential);
+      throw new Error('Incorrect or expired code.');
+    }
+    this.recordSuccess(user.internId, credential);
+    return this.issueToken(user);
+  }
+
+  async loginWithPin(user: User, pin: string): Promise<string> {
+    const credential = this.getCredential(user.internId);
+    this.assertNotLocked(credential);
+    if (!credential?.pinHash || !credential.salt) throw new Error('No PIN set for this account. Use a one-time code.');
+
+    const hash = await hashSecret(pin, credential.salt);
+    if (!safeEqual(hash, credential.pinHash)) {
+      this.recordFailure(user.internId, credential);
+      throw new Error('Incorrect PIN.');
+    }
+    this.recordSuccess(user.internId, credential);
+    return this.issueToken(user);
+  }
+
+  /** Sets or replaces the PIN of the account behind a valid session token. */
+  async setPin(token: string, pin: string): Promise<void> {
+    const claims = await this.verifyToken(token);
+    if (!claims) throw new Error('Session expired. Please sign in again.');
+    if (!/^\d+$/.test(pin) || pin.length < CONFIG.AUTH.MIN_PIN_LENGTH) {
+      throw new Error(`PIN must be at least ${CONFIG.AUTH.MIN_PIN_LENGTH} digits.`);
+    }
+    const existing = this.getCredential(claims.sub);
+    const salt = randomHex(16);
+    this.saveCredential({
+      internId: claims.sub,
+      pinHash: await hashSecret(pin, salt),
+      salt,
+      failedAttempts: existing?.failedAttempts || 0,
+      lockedUntil: existing?.lockedUntil,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  async issueToken(user: User): Promise<string> {
+    const now = Date.now();
+    const claims: SessionClaims = {
+      sub: user.internId,
+      role: user.role,
+      iat: now,
+      exp: now + CONFIG.AUTH.SESSION_HOURS * 60 * 60 * 1000
+    };
+    const payload = toBase64Url(JSON.stringify(claims));
+    return `${payload}.${await hmacSha256Hex(this.signingKey(), payload)}`;
+  }
+
+  async verifyToken(token: string): Promise<SessionClaims | null> {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const expected = await hmacSha256Hex(this.signingKey(), payload);
+    if (!safeEqual(signature, expected)) return null;
+    try {
+      const claims: SessionClaims = JSON.parse(fromBase64Url(payload));
+      return claims.exp > Date.now() ? claims : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /** Resolves a stored token back to the current account record. */
+  async restoreSession(token: string): Promise<User | null> {
+    const claims = await this.verifyToken(token);
+    if (!claims) return null;
+    const user = await api.findAccount(claims.sub);
+    // A role change in the data source invalidates older sessions
+    return user && user.role === claims.role ? user : null;
+  }
+
+  /**
+   * PIN hashes and lockout state stay on this device and are reachable only through this
+   * service, never through the api or the sheet. Clearing storage resets a lockout but also
+   * removes the PIN, leaving only one-time codes, whose attempts the sheet deployment limits.
+   */
+  private getCredential(internId: string): Credential | null {
+    return this.readCredentials().find(c => c.internId === internId) || null;
+  }
+
+  private saveCredential(credential: Credential) {
+    const others = this.readCredentials().filter(c => c.internId !== credential.internId);
+    localStorage.setItem(CREDENTIALS_KEY, JSON.stringify([...others, credential]));
+  }
+
+  private readCredentials(): Credential[] {
+    try {
+      return JSON.parse(localStorage.getItem(CREDENTIALS_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private assertNotLocked(credential: Credential | null) {
+    if (credential?.lockedUntil && new Date(credential.lockedUntil).getTime() > Date.now()) {
+      const minutes = Math.ceil((new Date(credential.lockedUntil).getTime() - Date.now()) / 60000);
+      throw new Error(`Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+  }
+
+  private recordFailure(internId: string, credential: Credential | null) {
+    const failedAttempts = (credential?.failedAttempts || 0) + 1;
+    const locked = failedAttempts >= CONFIG.AUTH.MAX_FAILED_ATTEMPTS;
+    this.saveCredential({
+      ...credential,
+      internId,
+      failedAttempts: locked ? 0 : failedAttempts,
+      lockedUntil: locked ? new Date(Date.now() + CONFIG.AUTH.LOCKOUT_MINUTES * 60 * 1000).toISOString() : credential?.lockedUntil,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  private recordSuccess(internId: string, credential: Credential | null) {
+    if (!credential || (credential.failedAttempts === 0 && !credential.lockedUntil)) return;
+    this.saveCredential({ ...credential, internId, failedAttempts: 0, lockedUntil: undefined, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Random per-device key. Anything compiled into the bundle is readable by every visitor,
+   * so there is no shared secret: tokens only stop tampering on another device, and the
+   * browser that holds the key can always mint its own. They are not a security boundary.
+   */
+  private signingKey(): string {
+    let key = localStorage.getItem(DEVICE_KEY);
+    if (!key) {
+      key = randomHex(32);
+      localStorage.setItem(DEVICE_KEY, key);
+    }
+    return key;
+  }
+}
+
+export const auth = new AuthService();
@@ -1,3 +1,5 @@
+import { ActivityCategory, RuleSet } from '../types';
+
 
 /**
  * CONFIGURATION FOR GOOGLE SHEETS INTEGRATION
@@ -6,12 +8,113 @@ export const CONFIG = {
   LOGO_URL: "https://lh3.googleusercontent.com/d/1CxBpmZlInT4DtK1wjeBArTevN7_drrMI", 
 
   GOOGLE_SHEET_API_URL: "https://script.google.com/macros/s/AKfycbxJwvPkcTtjsByd3a9qfSrwvhEotU7jr-_fvzODQ5V84wgQcmoDGeGsMouZ57xZOR9USA/exec", 
+
+  // Data backend: 'sheets' (Apps Script + local cache), 'local' (browser only) or 'memory' (volatile, for tests)
+  DATA_BACKEND: 'sheets' as 'sheets' | 'local' | 'memory',
   
   // Program Rules
   PROGRAM_SETTINGS: {
     MIN_DAYS_FOR_CERTIFICATE: 90, // Updated to 90 days
     MIN_HOURS_PER_DAY: 3.0, // Updated to 3.0 hours
     MAX_ALLOWED_GAP_DAYS: 3,
-    TOTAL_INTERNSHIP_MONTHS: 3
+    TOTAL_INTERNSHIP_MONTHS: 3,
+    TIMEZONE: 'Asia/Kolkata' // IANA zone whose wall clock decides "today", late entries and streaks for everyone
+  },
+
+  // Certificate rule sets; cohorts pick one by id, everyone else gets DEFAULT_RULE_SET
+  DEFAULT_RULE_SET: 'standard',
+  RULE_SETS: [
+    {
+      id: 'standard',
+      name: 'Standard (90 days)',
+      rules: [
+        { type: 'minActiveDays', days: 90 },
+        { type: 'minAverageHours', hours: 3.0 },
+        { type: 'maxGapDays', days: 3 }
+      ]
+    },
+    {
+      id: 'short-term',
+      name: 'Short-Term (60 days)',
+      rules: [
+        { type: 'minActiveDays', days: 60 },
+        { type: 'minAverageHours', hours: 2.0 },
+        { type: 'maxGapDays', days: 3 },
+        { type: 'minAverageQuality', score: 5 },
+        { type: 'categoryQuota', category: ActivityCategory.PROJECT, minDays: 10 },
+        { type: 'excusedDaysAllowance', days: 5 }
+      ]
+    }
+  ] as RuleSet[],
+
+  // Activity review: when COUNT_PENDING is on, unreviewed entries count toward eligibility
+  REVIEW_SETTINGS: {
+    COUNT_PENDING: true
+  },
+
+  // Hour logging: sessions are entered in STEP_MINUTES increments, capped at MAX_DAILY_HOURS per day.
+  // Entries claiming more than the built-in timer tracked, beyond the tolerance, are flagged
+  SESSION_SETTINGS: {
+    STEP_MINUTES: 15,
+    MAX_DAILY_HOURS: 12,
+    TRACKED_TOLERANCE_MINUTES: 15
+  },
+
+  // Corrections: interns may edit or withdraw their own entries for this long after submitting;
+  // admins with EDIT_ANY_ACTIVITY can do so at any time
+  EDIT_SETTINGS: {
+    INTERN_GRACE_HOURS: 24
+  },
+
+  // Missed days: interns may log up to MAX_DAYS_BACK days late, at most MAX_PER_MONTH times per month.
+  // Late entries need reviewer approval before they count, whatever REVIEW_SETTINGS says
+  BACKDATE_SETTINGS: {
+    MAX_DAYS_BACK: 2,
+    MAX_PER_MONTH: 4
+  },
+
+  // Certificates: codes look like CIAL-XXXX-XXXX; the signatory line is printed under the signature rule
+  CERTIFICATE_SETTINGS: {
+    CODE_PREFIX: 'CIAL',
+    PROGRAM_NAME: 'CIAL Internship Program',
+    SIGNATORY: 'Program Director'
+  },
+
+  // Quality scoring: 'gemini' needs GEMINI_API_KEY in .env.local, 'heuristic' runs offline and deterministically.
+  // Gemini calls are abandoned after TIMEOUT_MS; rate limits and server errors are retried with backoff
+  AI: {
+    SCORER: 'gemini' as 'gemini' | 'heuristic',
+    MODEL: 'gemini-3-flash-preview',
+    API_KEY: process.env.API_KEY || '',
+    TIMEOUT_MS: 15000,
+    MAX_RETRIES: 2,
+    RETRY_BASE_MS: 1000
+  },
+
+  // Copy detection: descriptions are compared as SHINGLE_SIZE-word shingles against every earlier entry.
+  // At THRESHOLD (Jaccard similarity) the intern is warned before submitting; a match with another intern's entry needs approval
+  SIMILARITY: {
+    PROVIDER: 'minhash' as 'minhash',
+    SHINGLE_SIZE: 3,
+    NUM_HASHES: 128,
+    THRESHOLD: 0.6
+  },
+
+  // Sign-in: PIN or one-time code, with lockout and signed session tokens.
+  // Codes are emailed by the sheet deployment; the console stand-in exists only in dev builds and the memory backend
+  AUTH: {
+    OTP_LENGTH: 6,
+    OTP_TTL_MINUTES: 10,
+    MIN_PIN_LENGTH: 4,
+    MAX_FAILED_ATTEMPTS: 5,
+    LOCKOUT_MINUTES: 15,
+    SESSION_HOURS: 12
+  },
+
+  // Submission outbox: retries back off exponentially from BASE up to MAX
+  SYNC_SETTINGS: {
+    RETRY_BASE_MS: 5000,
+    RETRY_MAX_MS: 10 * 60 * 1000,
+    CONFIRM_ATTEMPTS: 5
   }
 };
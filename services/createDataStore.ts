@@ -0,0 +1,24 @@
+import { DataStore } from './dataStore';
+import { GoogleSheetsStore } from './googleSheetsStore';
+import { LocalStorageStore } from './localStorageStore';
+import { MemoryStore } from './memoryStore';
+import { CONFIG } from './config';
+
+export const isSheetConfigured = (): boolean => {
+  const sheetUrl = (CONFIG.GOOGLE_SHEET_API_URL || "").trim();
+  return !!sheetUrl && !sheetUrl.includes("PASTE_YOUR_URL_HERE");
+};
+
+export const createDataStore = (backend = CONFIG.DATA_BACKEND): DataStore => {
+  switch (backend) {
+    case 'memory':
+      return new MemoryStore();
+    case 'local':
+      return new LocalStorageStore();
+    case 'sheets':
+    default:
+      // Without a deployed script there is nothing to sync against
+      if (!isSheetConfigured()) return new LocalStorageStore();
+      return new GoogleSheetsStore(CONFIG.GOOGLE_SHEET_API_URL.trim());
+  }
+};
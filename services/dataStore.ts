@@ -0,0 +1,59 @@
+import { User, Activity, ActivityCategory, Cohort, LeaveRequest, Holiday, Certificate } from '../types';
+import { SyncReport } from './sheetSchema';
+
+export interface ActivityQuery {
+  internId?: string;
+  from?: string; // inclusive ISO date
+  to?: string;   // inclusive ISO date
+  category?: ActivityCategory;
+}
+
+/**
+ * Storage contract used by InternApiService. Implementations own transport,
+ * row mapping and caching; callers only ever see typed `User`/`Activity` objects.
+ */
+export interface DataStore {
+  listInterns(): Promise<User[]>;
+  /** Inserts or replaces interns by internId; everyone else is left as is. */
+  saveInterns(interns: User[]): Promise<void>;
+  /** Non-intern accounts (admins) that can sign in. */
+  listStaff(): Promise<User[]>;
+  listCohorts(): Promise<Cohort[]>;
+  listActivities(query?: ActivityQuery): Promise<Activity[]>;
+  /** Reads the authoritative copy of one record; rejects if the source cannot be reached. */
+  getActivity(id: string): Promise<Activity | null>;
+  createActivity(activity: Activity): Promise<Activity>;
+  updateActivity(id: string, changes: Partial<Activity>): Promise<Activity>;
+  listLeaveRequests(internId?: string): Promise<LeaveRequest[]>;
+  createLeaveRequest(request: LeaveRequest): Promise<LeaveRequest>;
+  updateLeaveRequest(id: string, changes: Partial<LeaveRequest>): Promise<LeaveRequest>;
+  listHolidays(): Promise<Holiday[]>;
+  /** Replaces the whole program holiday calendar. */
+  saveHolidays(holidays: Holiday[]): Promise<void>;
+  listCertificates(internId?: string): Promise<Certificate[]>;
+  createCertificate(certificate: Certificate): Promise<Certificate>;
+  updateCertificate(id: string, changes: Partial<Certificate>): Promise<Certificate>;
+  /** Rows the last pull left out and why; null for stores that do not sync from a sheet. */
+  getSyncReport(): Promise<SyncReport | null>;
+}
+
+export const matchesQuery = (activity: Activity, query: ActivityQuery = {}): boolean => {
+  if (query.internId && activity.internId !== query.internId) return false;
+  if (query.from && activity.date < query.from) return false;
+  if (query.to && activity.date > query.to) return false;
+  if (query.category && activity.category !== query.category) return false;
+  return true;
+};
+
+export const upsertBy = <T, K extends keyof T>(list: T[], items: T[], key: K): T[] => {
+  const incoming = new Map(items.map(item => [item[key], item]));
+  return [...list.map(item => incoming.get(item[key]) || item), ...items.filter(item => !list.some(other => other[key] === item[key]))];
+};
+
+export const applyUpdate = <T extends { id: string }>(list: T[], id: string, changes: Partial<T>): T => {
+  const index = list.findIndex(a => a.id === id);
+  if (index === -1) throw new Error(`Record ${id} not found.`);
+  const updated = { ...list[index], ...changes, id };
+  list[index] = updated;
+  return updated;
+};
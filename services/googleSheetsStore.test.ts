@@ -0,0 +1,65 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GoogleSheetsStore } from './googleSheetsStore';
+import { SHEET_SCHEMA_VERSION } from './sheetSchema';
+
+const URL = 'https://script.example/exec';
+
+/** Stands in for the Apps Script deployment: GET serves `rows`, POSTs are recorded and only applied when `deliver` is set. */
+const fakeSheet = () => {
+  const sheet = {
+    rows: [{ id: 'a1', internId: 'TNT_0001', date: '2024-05-01', hours: 4, category: 'project', description: 'Original text' }] as any[],
+    posts: [] as any[],
+    deliver: false
+  };
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+    if (init?.method === 'POST') {
+      const body = JSON.parse(String(init.body));
+      sheet.posts.push(body);
+      if (sheet.deliver && body.action === 'update') {
+        sheet.rows = sheet.rows.map(r => r.id === body.id ? { ...body, action: undefined } : r);
+      }
+      return new Response(null);
+    }
+    return new Response(JSON.stringify({ schemaVersion: SHEET_SCHEMA_VERSION, activities: sheet.rows }));
+  }));
+  return sheet;
+};
+
+describe('GoogleSheetsStore updates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a change whose push was lost instead of letting the next pull overwrite it', async () => {
+    const sheet = fakeSheet();
+    const store = new GoogleSheetsStore(URL);
+    await store.listActivities();
+
+    await store.updateActivity('a1', { withdrawn: true });
+    await vi.waitFor(() => expect(sheet.posts).toHaveLength(1));
+
+    const [activity] = await store.listActivities();
+    expect(activity.withdrawn).toBe(true);
+    expect((await store.getSyncReport())?.warnings.some(w => w.includes('not yet confirmed'))).toBe(true);
+  });
+
+  it('stops overlaying once the sheet row carries the change', async () => {
+    const sheet = fakeSheet();
+    sheet.deliver = true;
+    const store = new GoogleSheetsStore(URL);
+    await store.listActivities();
+
+    await store.updateActivity('a1', { description: 'Edited text' });
+    await vi.waitFor(() => expect(sheet.posts).toHaveLength(1));
+    expect(sheet.rows[0].description).toBe('Edited text');
+
+    await store.listActivities();
+    expect((await store.getSyncReport())?.warnings).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('cial_pending_updates') || '[]')).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+import { User, Activity, Cohort, LeaveRequest, LeaveStatus, Holiday, Certificate } from '../types';
+import { DataStore, ActivityQuery, matchesQuery } from './dataStore';
+import { LocalStorageStore } from './localStorageStore';
+import { CONFIG } from './config';
+import { SHEET_SCHEMA_VERSION, SyncReport, RejectedRow, pick, toIsoDate, parseInternRows, parseStaffRows, parseActivityRows } from './sheetSchema';
+import { UpdateQueue, PendingUpdate } from './updateQueue';
+
+/**
+ * Apps Script backed store. Any endpoint speaking the same contract works:
+ * GET returns `{ schemaVersion, interns, activities, cohorts?, staff?, leaveRequests?, holidays?, certificates? }`,
+ * POST receives the activity (or an `action`-tagged record) as JSON text.
+ * Interns and activities are read through the declared columns in sheetSchema.ts;
+ * rows that fail validation are left out and listed in the sync report.
+ * Every successful pull is mirrored into the local cache, which is served when
+ * the endpoint is unreachable. Changes to existing activities and leave requests go
+ * through an UpdateQueue and stay laid over pulled rows until the sheet confirms them.
+ * Sign-in credentials never travel through this store.
+ */
+interface Snapshot {
+  interns: User[];
+  staff: User[];
+  cohorts: Cohort[];
+  activities: Activity[];
+  leaveRequests: LeaveRequest[];
+  holidays: Holiday[];
+  certificates: Certificate[];
+}
+
+export class GoogleSheetsStore implements DataStore {
+  private inflight: Promise<Snapshot> | null = null;
+  private report: SyncReport | null = null;
+  private updates: UpdateQueue;
+
+  constructor(private url: string, private cache: LocalStorageStore = new LocalStorageStore()) {
+    this.updates = new UpdateQueue(update => this.pushUpdate(update), () => this.fetchSnapshot());
+  }
+
+  private pull(): Promise<Snapshot> {
+    // Collapse concurrent reads (e.g. interns + activities on dashboard load) into one request
+    if (!this.inflight) {
+      this.inflight = this.readWithFallback().finally(() => { this.inflight = null; });
+    }
+    return this.inflight;
+  }
+
+  private async readWithFallback(): Promise<Snapshot> {
+    try {
+      return await this.fetchSnapshot();
+    } catch (error: any) {
+      console.warn("⚠️ Cloud connection failed. Using local vault data.", error.message);
+      this.report = { checkedAt: new Date().toISOString(), rejected: [], warnings: [`Showing cached data: ${error.message}`] };
+      return {
+        interns: await this.cache.listInterns(),
+        staff: await this.cache.listStaff(),
+        cohorts: await this.cache.listCohorts(),
+        activities: await this.cache.listActivities(),
+        leaveRequests: await this.cache.listLeaveRequests(),
+        holidays: await this.cache.listHolidays(),
+        certificates: await this.cache.listCertificates()
+      };
+    }
+  }
+
+  private async fetchSnapshot(): Promise<Snapshot> {
+    let interns = await this.cache.listInterns();
+    let staff = await this.cache.listStaff();
+    let cohorts = await this.cache.listCohorts();
+    let activities = await this.cache.listActivities();
+    let leaveRequests = await this.cache.listLeaveRequests();
+    let holidays = await this.cache.listHolidays();
+    let certificates = await this.cache.listCertificates();
+
+    const response = await fetch(this.url, { cache: 'no-store' });
+    if (!response.ok) throw new Error(`Cloud Sync failed`);
+
+    const json = await response.json();
+    if (json.error) throw new Error(json.error);
+
+    const warnings: string[] = [];
+    const rejected: RejectedRow[] = [];
+    const schemaVersion = json.schemaVersion === undefined ? undefined : Number(json.schemaVersion);
+    if (schemaVersion === undefined) {
+      warnings.push(`The Apps Script does not report a schemaVersion; expected v${SHEET_SCHEMA_VERSION}.`);
+    } else if (schemaVersion !== SHEET_SCHEMA_VERSION) {
+      throw new Error(`Sheet schema v${schemaVersion} is not supported (this app reads v${SHEET_SCHEMA_VERSION}). Update the Apps Script deployment.`);
+    }
+
+    if (json.cohorts && json.cohorts.length > 0) {
+      const remoteCohorts = json.cohorts.map(mapCohortRow).filter((c: Cohort) => c.id !== "");
+      if (remoteCohorts.length > 0) {
+        cohorts = remoteCohorts;
+        this.cache.replaceCohorts(cohorts);
+      }
+    }
+
+    if (json.interns && json.interns.length > 0) {
+      const parsed = parseInternRows(json.interns, cohorts);
+      rejected.push(...parsed.rejected);
+      if (parsed.records.length > 0) {
+        interns = parsed.records;
+        this.cache.replaceInterns(interns);
+      } else warnings.push('No intern row passed validation; keeping the cached roster.');
+    }
+
+    if (json.staff && json.staff.length > 0) {
+      const parsed = parseStaffRows(json.staff);
+      rejected.push(...parsed.rejected);
+      if (parsed.records.length > 0) {
+        staff = parsed.records;
+        this.cache.replaceStaff(staff);
+      } else warnings.push('No staff row passed validation; keeping the cached staff list.');
+    }
+
+    // Only overwrite if we actually got valid results back to prevent "vanishing"
+    if (json.activities && json.activities.length > 0) {
+      const parsed = parseActivityRows(json.activities);
+      rejected.push(...parsed.rejected);
+      if (parsed.records.length > 0) {
+        activities = this.updates.reconcile('activity', parsed.records);
+        this.cache.replaceActivities(activities);
+      } else warnings.push('No activity row passed validation; keeping the cached log.');
+    }
+
+    if (json.leaveRequests && json.leaveRequests.length > 0) {
+      leaveRequests = this.updates.reconcile('leave', json.leaveRequests.map(mapLeaveRow).filter((l: LeaveRequest) => l.id && l.startDate && l.endDate));
+      this.cache.replaceLeaveRequests(leaveRequests);
+    }
+
+    // An empty holiday tab is a valid calendar, so only a missing tab keeps the cache
+    if (Array.isArray(json.holidays)) {
+      holidays = json.holidays.map(mapHolidayRow).filter((h: Holiday) => h.date !== "");
+      await this.cache.saveHolidays(holidays);
+    }
+
+    if (json.certificates && json.certificates.length > 0) {
+      certificates = json.certificates.map(mapCertificateRow).filter((c: Certificate) => c.id && c.code);
+      this.cache.replaceCertificates(certificates);
+    }
+
+    const unconfirmed = this.updates.list().length;
+    if (unconfirmed > 0) warnings.push(`${unconfirmed} change(s) not yet confirmed by the sheet; showing the local version until they are.`);
+    this.report = { checkedAt: new Date().toISOString(), schemaVersion, rejected, warnings };
+    return { interns, staff, cohorts, activities, leaveRequests, holidays, certificates };
+  }
+
+  async getSyncReport(): Promise<SyncReport | null> {
+    return this.report;
+  }
+
+  async listInterns(): Promise<User[]> {
+    const { interns } = await this.pull();
+    return interns;
+  }
+
+  async saveInterns(interns: User[]): Promise<void> {
+    await this.cache.saveInterns(interns);
+    await this.push({ action: 'saveInterns', interns });
+  }
+
+  async listStaff(): Promise<User[]> {
+    const { staff } = await this.pull();
+    return staff;
+  }
+
+  async listCohorts(): Promise<Cohort[]> {
+    const { cohorts } = await this.pull();
+    return cohorts;
+  }
+
+  async listActivities(query?: ActivityQuery): Promise<Activity[]> {
+    const { activities } = await this.pull();
+    return activities.filter(a => matchesQuery(a, query));
+  }
+
+  async getActivity(id: string): Promise<Activity | null> {
+    // Bypass the cache: callers use this to confirm a write actually reached the sheet
+    const { activities } = await this.fetchSnapshot();
+    return activities.find(a => a.id === id) || null;
+  }
+
+  /**
+   * Resolves once the request has left the browser. Apps Script only accepts
+   * opaque (no-cors) posts, so delivery must be confirmed via `getActivity`.
+   */
+  async createActivity(activity: Activity): Promise<Activity> {
+    await this.push(activity);
+    return activity;
+  }
+
+  // Queued rather than fired and forgotten: a lost push would let the next pull undo the edit or review
+  async updateActivity(id: string, changes: Partial<Activity>): Promise<Activity> {
+    const updated = await this.cache.updateActivity(id, { ...changes, updatedAt: new Date().toISOString() });
+    this.updates.enqueue('activity', updated);
+    return updated;
+  }
+
+  async listLeaveRequests(internId?: string): Promise<LeaveRequest[]> {
+    const { leaveRequests } = await this.pull();
+    return leaveRequests.filter(l => !internId || l.internId === internId);
+  }
+
+  async createLeaveRequest(request: LeaveRequest): Promise<LeaveRequest> {
+    await this.cache.createLeaveRequest(request);
+    await this.push({ action: 'createLeave', ...request });
+    return request;
+  }
+
+  async updateLeaveRequest(id: string, changes: Partial<LeaveRequest>): Promise<LeaveRequest> {
+    const updated = await this.cache.updateLeaveRequest(id, { ...changes, updatedAt: new Date().toISOString() });
+    this.updates.enqueue('leave', updated);
+    return updated;
+  }
+
+  async listHolidays(): Promise<Holiday[]> {
+    const { holidays } = await this.pull();
+    return holidays;
+  }
+
+  async saveHolidays(holidays: Holiday[]): Promise<void> {
+    await this.cache.saveHolidays(holidays);
+    await this.push({ action: 'saveHolidays', holidays });
+  }
+
+  async listCertificates(internId?: string): Promise<Certificate[]> {
+    const { certificates } = await this.pull();
+    return certificates.filter(c => !internId || c.internId === internId);
+  }
+
+  async createCertificate(certificate: Certificate): Promise<Certificate> {
+    await this.cache.createCertificate(certificate);
+    await this.push({ action: 'createCertificate', ...certificate });
+    return certificate;
+  }
+
+  // Awaited like creation: a revocation that never reaches the sheet would keep verifying elsewhere
+  async updateCertificate(id: string, changes: Partial<Certificate>): Promise<Certificate> {
+    const updated = await this.cache.updateCertificate(id, changes);
+    await this.push({ action: 'updateCertificate', ...updated });
+    return updated;
+  }
+
+  private pushUpdate(update: PendingUpdate): Promise<void> {
+    return this.push({ action: update.kind === 'leave' ? 'updateLeave' : 'update', ...update.record });
+  }
+
+  private async push(payload: object): Promise<void> {
+    await fetch(this.url, {
+      method: 'POST',
+      mode: 'no-cors',
+      headers: { 'Content-Type': 'text/plain' },
+      body: JSON.stringify(payload)
+    });
+  }
+}
+
+const mapCohortRow = (item: any): Cohort => {
+  const id = pick(item, ["Cohort ID", "Cohort", "Batch", "ID"]);
+  const mentors = pick(item, ["Mentors", "Mentor IDs", "Mentor"]);
+  return {
+    id: id ? String(id).trim().toUpperCase() : "",
+    name: String(pick(item, ["Name", "Cohort Name"]) || id || "").trim(),
+    startDate: toIsoDate(pick(item, ["Start Date", "Start"])),
+    endDate: toIsoDate(pick(item, ["End Date", "End"])),
+    ruleSetId: String(pick(item, ["Rule Set", "Rule Set ID", "Rules"]) || CONFIG.DEFAULT_RULE_SET).trim(),
+    mentorIds: mentors ? String(mentors).split(/[,;]/).map(m => m.trim().toUpperCase()).filter(Boolean) : []
+  };
+};
+
+const mapLeaveRow = (l: any): LeaveRequest => {
+  const status = String(l.status || '').trim().toLowerCase();
+  return {
+    id: String(l.id || "").trim(),
+    internId: String(l.internId || "").trim().toUpperCase(),
+    startDate: toIsoDate(l.startDate),
+    endDate: toIsoDate(l.endDate),
+    reason: String(l.reason || ""),
+    attachment: l.attachment || undefined,
+    status: (Object.values(LeaveStatus) as string[]).includes(status) ? status as LeaveStatus : LeaveStatus.PENDING,
+    submittedAt: String(l.submittedAt || ""),
+    reviewerId: l.reviewerId || undefined,
+    decidedAt: l.decidedAt || undefined,
+    decisionComment: l.decisionComment || undefined,
+    updatedAt: l.updatedAt ? String(l.updatedAt) : undefined
+  };
+};
+
+const mapHolidayRow = (item: any): Holiday => ({
+  date: toIsoDate(pick(item, ["Date", "Holiday Date"])),
+  name: String(pick(item, ["Name", "Holiday", "Holiday Name"]) || "Holiday").trim()
+});
+
+const mapCertificateRow = (c: any): Certificate => ({
+  id: String(c.id || "").trim(),
+  code: String(c.code || "").trim().toUpperCase(),
+  internId: String(c.internId || "").trim().toUpperCase(),
+  internName: String(c.internName || ""),
+  cohortName: c.cohortName || undefined,
+  startDate: toIsoDate(c.startDate),
+  endDate: toIsoDate(c.endDate),
+  activeDays: Number(c.activeDays || 0),
+  totalHours: Number(c.totalHours || 0),
+  issuedAt: String(c.issuedAt || ""),
+  issuedBy: String(c.issuedBy || ""),
+  hash: String(c.hash || ""),
+  revokedAt: c.revokedAt || undefined,
+  revokedBy: c.revokedBy || undefined,
+  revocationReason: c.revocationReason || undefined
+});
@@ -0,0 +1,140 @@
+import { User, Activity, Cohort, LeaveRequest, Holiday, Certificate } from '../types';
+import { DataStore, ActivityQuery, matchesQuery, applyUpdate, upsertBy } from './dataStore';
+import { SyncReport } from './sheetSchema';
+import { MOCK_INTERNS, MOCK_COHORTS, INITIAL_ACTIVITIES, MOCK_HOLIDAYS } from './mockData';
+import staffSeed from '../data/staff.json';
+
+const CACHE_INTERNS = 'cial_vault_interns';
+const CACHE_ACTIVITIES = 'cial_vault_activities';
+const CACHE_COHORTS = 'cial_vault_cohorts';
+const CACHE_STAFF = 'cial_vault_staff';
+const CACHE_LEAVE = 'cial_vault_leave';
+const CACHE_HOLIDAYS = 'cial_vault_holidays';
+const CACHE_CERTIFICATES = 'cial_vault_certificates';
+
+/**
+ * Browser-only store. Falls back to the mock dataset until something is written.
+ * Also serves as the offline cache behind GoogleSheetsStore.
+ */
+export class LocalStorageStore implements DataStore {
+  private read<T>(key: string, fallback: T): T {
+    const stored = localStorage.getItem(key);
+    if (!stored) return fallback;
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      return fallback;
+    }
+  }
+
+  replaceInterns(interns: User[]) {
+    localStorage.setItem(CACHE_INTERNS, JSON.stringify(interns));
+  }
+
+  replaceStaff(staff: User[]) {
+    localStorage.setItem(CACHE_STAFF, JSON.stringify(staff));
+  }
+
+  replaceCohorts(cohorts: Cohort[]) {
+    localStorage.setItem(CACHE_COHORTS, JSON.stringify(cohorts));
+  }
+
+  replaceActivities(activities: Activity[]) {
+    localStorage.setItem(CACHE_ACTIVITIES, JSON.stringify(activities));
+  }
+
+  replaceLeaveRequests(requests: LeaveRequest[]) {
+    localStorage.setItem(CACHE_LEAVE, JSON.stringify(requests));
+  }
+
+  replaceCertificates(certificates: Certificate[]) {
+    localStorage.setItem(CACHE_CERTIFICATES, JSON.stringify(certificates));
+  }
+
+  async listInterns(): Promise<User[]> {
+    return this.read<User[]>(CACHE_INTERNS, MOCK_INTERNS);
+  }
+
+  async saveInterns(interns: User[]): Promise<void> {
+    this.replaceInterns(upsertBy(await this.listInterns(), interns, 'internId'));
+  }
+
+  async listStaff(): Promise<User[]> {
+    return this.read<User[]>(CACHE_STAFF, staffSeed as User[]);
+  }
+
+  async listCohorts(): Promise<Cohort[]> {
+    return this.read<Cohort[]>(CACHE_COHORTS, MOCK_COHORTS);
+  }
+
+  async listActivities(query?: ActivityQuery): Promise<Activity[]> {
+    return this.read<Activity[]>(CACHE_ACTIVITIES, INITIAL_ACTIVITIES).filter(a => matchesQuery(a, query));
+  }
+
+  async getActivity(id: string): Promise<Activity | null> {
+    const list = await this.listActivities();
+    return list.find(a => a.id === id) || null;
+  }
+
+  async createActivity(activity: Activity): Promise<Activity> {
+    const list = this.read<Activity[]>(CACHE_ACTIVITIES, INITIAL_ACTIVITIES).filter(a => a.id !== activity.id);
+    list.push(activity);
+    this.replaceActivities(list);
+    return activity;
+  }
+
+  async updateActivity(id: string, changes: Partial<Activity>): Promise<Activity> {
+    const list = this.read<Activity[]>(CACHE_ACTIVITIES, INITIAL_ACTIVITIES);
+    const updated = applyUpdate(list, id, changes);
+    this.replaceActivities(list);
+    return updated;
+  }
+
+  async listLeaveRequests(internId?: string): Promise<LeaveRequest[]> {
+    return this.read<LeaveRequest[]>(CACHE_LEAVE, []).filter(l => !internId || l.internId === internId);
+  }
+
+  async createLeaveRequest(request: LeaveRequest): Promise<LeaveRequest> {
+    const list = this.read<LeaveRequest[]>(CACHE_LEAVE, []).filter(l => l.id !== request.id);
+    list.push(request);
+    this.replaceLeaveRequests(list);
+    return request;
+  }
+
+  async updateLeaveRequest(id: string, changes: Partial<LeaveRequest>): Promise<LeaveRequest> {
+    const list = this.read<LeaveRequest[]>(CACHE_LEAVE, []);
+    const updated = applyUpdate(list, id, changes);
+    this.replaceLeaveRequests(list);
+    return updated;
+  }
+
+  async listHolidays(): Promise<Holiday[]> {
+    return this.read<Holiday[]>(CACHE_HOLIDAYS, MOCK_HOLIDAYS);
+  }
+
+  async saveHolidays(holidays: Holiday[]): Promise<void> {
+    localStorage.setItem(CACHE_HOLIDAYS, JSON.stringify(holidays));
+  }
+
+  async listCertificates(internId?: string): Promise<Certificate[]> {
+    return this.read<Certificate[]>(CACHE_CERTIFICATES, []).filter(c => !internId || c.internId === internId);
+  }
+
+  async createCertificate(certificate: Certificate): Promise<Certificate> {
+    const list = this.read<Certificate[]>(CACHE_CERTIFICATES, []).filter(c => c.id !== certificate.id);
+    list.push(certificate);
+    this.replaceCertificates(list);
+    return certificate;
+  }
+
+  async updateCertificate(id: string, changes: Partial<Certificate>): Promise<Certificate> {
+    const list = this.read<Certificate[]>(CACHE_CERTIFICATES, []);
+    const updated = applyUpdate(list, id, changes);
+    this.replaceCertificates(list);
+    return updated;
+  }
+
+  async getSyncReport(): Promise<SyncReport | null> {
+    return null;
+  }
+}
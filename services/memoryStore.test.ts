@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { Activity, ActivityCategory, User, UserRole } from '../types';
+import { MemoryStore } from './memoryStore';
+
+const intern: User = { id: 'u1', email: 'alice@example.org', name: 'Alice', role: UserRole.INTERN, internId: 'TNT_0001', joiningDate: '2024-05-01' };
+
+const entry = (id: string, internId: string, date: string): Activity => ({
+  id,
+  internId,
+  date,
+  timestamp: `${date}T12:00:00Z`,
+  hours: 4,
+  category: ActivityCategory.PROJECT,
+  description: 'Wired the export dialog to the filtered activity list.'
+});
+
+describe('MemoryStore stand-in', () => {
+  it('serves the JSON it was seeded with and filters by query', async () => {
+    const store = new MemoryStore({
+      interns: [intern],
+      activities: [entry('a1', 'TNT_0001', '2024-05-02'), entry('a2', 'TNT_0001', '2024-05-05'), entry('a3', 'TNT_0002', '2024-05-02')]
+    });
+    expect(await store.listInterns()).toEqual([intern]);
+    expect((await store.listActivities({ internId: 'TNT_0001', from: '2024-05-03' })).map(a => a.id)).toEqual(['a2']);
+  });
+
+  it('keeps writes and never hands out its own records', async () => {
+    const seed = [entry('a1', 'TNT_0001', '2024-05-02')];
+    const store = new MemoryStore({ activities: seed });
+    await store.createActivity(entry('a2', 'TNT_0001', '2024-05-03'));
+    const updated = await store.updateActivity('a1', { hours: 6 });
+
+    expect(updated.hours).toBe(6);
+    expect(seed[0].hours).toBe(4);
+    const [listed] = await store.listActivities();
+    listed.hours = 99;
+    expect((await store.listActivities()).map(a => a.hours)).toEqual([6, 4]);
+    await expect(store.updateActivity('missing', { hours: 1 })).rejects.toThrow();
+  });
+});
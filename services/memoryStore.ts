@@ -0,0 +1,110 @@
+import { User, Activity, Cohort, LeaveRequest, Holiday, Certificate } from '../types';
+import { DataStore, ActivityQuery, matchesQuery, applyUpdate, upsertBy } from './dataStore';
+import { SyncReport } from './sheetSchema';
+import { MOCK_INTERNS, MOCK_COHORTS, INITIAL_ACTIVITIES, MOCK_HOLIDAYS } from './mockData';
+import staffSeed from '../data/staff.json';
+
+export interface MemorySeed {
+  interns?: User[];
+  staff?: User[];
+  cohorts?: Cohort[];
+  activities?: Activity[];
+  leaveRequests?: LeaveRequest[];
+  holidays?: Holiday[];
+  certificates?: Certificate[];
+}
+
+/**
+ * Volatile store, seeded from plain JSON. Used for tests and local stand-ins.
+ */
+export class MemoryStore implements DataStore {
+  private interns: User[];
+  private staff: User[];
+  private cohorts: Cohort[];
+  private activities: Activity[];
+  private leaveRequests: LeaveRequest[];
+  private holidays: Holiday[];
+  private certificates: Certificate[];
+
+  constructor(seed: MemorySeed = { interns: MOCK_INTERNS, staff: staffSeed as User[], cohorts: MOCK_COHORTS, activities: INITIAL_ACTIVITIES, holidays: MOCK_HOLIDAYS }) {
+    this.interns = (seed.interns || []).map(i => ({ ...i }));
+    this.staff = (seed.staff || []).map(u => ({ ...u }));
+    this.cohorts = (seed.cohorts || []).map(c => ({ ...c }));
+    this.activities = (seed.activities || []).map(a => ({ ...a }));
+    this.leaveRequests = (seed.leaveRequests || []).map(l => ({ ...l }));
+    this.holidays = (seed.holidays || []).map(h => ({ ...h }));
+    this.certificates = (seed.certificates || []).map(c => ({ ...c }));
+  }
+
+  async listInterns(): Promise<User[]> {
+    return this.interns.map(i => ({ ...i }));
+  }
+
+  async saveInterns(interns: User[]): Promise<void> {
+    this.interns = upsertBy(this.interns, interns.map(i => ({ ...i })), 'internId');
+  }
+
+  async listStaff(): Promise<User[]> {
+    return this.staff.map(u => ({ ...u }));
+  }
+
+  async listCohorts(): Promise<Cohort[]> {
+    return this.cohorts.map(c => ({ ...c }));
+  }
+
+  async listActivities(query?: ActivityQuery): Promise<Activity[]> {
+    return this.activities.filter(a => matchesQuery(a, query)).map(a => ({ ...a }));
+  }
+
+  async getActivity(id: string): Promise<Activity | null> {
+    const found = this.activities.find(a => a.id === id);
+    return found ? { ...found } : null;
+  }
+
+  async createActivity(activity: Activity): Promise<Activity> {
+    this.activities.push({ ...activity });
+    return activity;
+  }
+
+  async updateActivity(id: string, changes: Partial<Activity>): Promise<Activity> {
+    return applyUpdate(this.activities, id, changes);
+  }
+
+  async listLeaveRequests(internId?: string): Promise<LeaveRequest[]> {
+    return this.leaveRequests.filter(l => !internId || l.internId === internId).map(l => ({ ...l }));
+  }
+
+  async createLeaveRequest(request: LeaveRequest): Promise<LeaveRequest> {
+    this.leaveRequests.push({ ...request });
+    return request;
+  }
+
+  async updateLeaveRequest(id: string, changes: Partial<LeaveRequest>): Promise<LeaveRequest> {
+    return applyUpdate(this.leaveRequests, id, changes);
+  }
+
+  async listHolidays(): Promise<Holiday[]> {
+    return this.holidays.map(h => ({ ...h }));
+  }
+
+  async saveHolidays(holidays: Holiday[]): Promise<void> {
+    this.holidays = holidays.map(h => ({ ...h }));
+  }
+
+  async listCertificates(internId?: string): Promise<Certificate[]> {
+    return this.certificates.filter(c => !internId || c.internId === internId).map(c => ({ ...c }));
+  }
+
+  async createCertificate(certificate: Certificate): Promise<Certificate> {
+    this.certificates.push({ ...certificate });
+    return certificate;
+  }
+
+  async updateCertificate(id: string, changes: Partial<Certificate>): Promise<Certificate> {
+    return applyUpdate(this.certificates, id, changes);
+  }
+
+  async getSyncReport(): Promise<SyncReport | null> {
+    return null;
+  }
+}
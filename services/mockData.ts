@@ -1,14 +1,28 @@
 
-import { User, UserRole, Activity, ActivityCategory } from '../types';
-
-export const MOCK_ADMIN: User = {
-  id: 'admin-1',
-  email: 'admin@internship.org',
-  name: 'Program Director',
-  role: UserRole.ADMIN,
-  internId: 'ADM-001',
-  joiningDate: '2024-01-01'
-};
+import { User, UserRole, Activity, ActivityCategory, Cohort, Holiday } from '../types';
+import { addDays, programToday } from '../utils/dates';
+
+const daysFromToday = (offset: number): string => addDays(programToday(), offset);
+
+// Two overlapping batches; the first started 70 days ago so the generated history falls inside its window
+export const MOCK_COHORTS: Cohort[] = [
+  {
+    id: 'BATCH-A',
+    name: 'Batch A (Standard)',
+    startDate: daysFromToday(-70),
+    endDate: daysFromToday(19),
+    ruleSetId: 'standard',
+    mentorIds: ['MEN-001']
+  },
+  {
+    id: 'BATCH-B',
+    name: 'Batch B (Short-Term)',
+    startDate: daysFromToday(-20),
+    endDate: daysFromToday(39),
+    ruleSetId: 'short-term',
+    mentorIds: []
+  }
+];
 
 const generateMockInterns = (count: number): User[] => {
   return Array.from({ length: count }, (_, i) => ({
@@ -17,7 +31,8 @@ const generateMockInterns = (count: number): User[] => {
     name: `Intern Name ${i + 1}`,
     role: UserRole.INTERN,
     internId: `INT-${1000 + i}`,
-    joiningDate: '2024-05-01'
+    joiningDate: i < 120 ? MOCK_COHORTS[0].startDate : MOCK_COHORTS[1].startDate,
+    cohortId: i < 120 ? MOCK_COHORTS[0].id : MOCK_COHORTS[1].id
   }));
 };
 
@@ -26,18 +41,15 @@ export const MOCK_INTERNS = generateMockInterns(185);
 // Generating some realistic activity for the first few interns
 const generateActivities = (internId: string): Activity[] => {
   const activities: Activity[] = [];
-  const today = new Date();
   for (let i = 1; i <= 65; i++) {
-    const d = new Date();
-    d.setDate(today.getDate() - i);
     // Introduce some gaps for testing logic
     if (i % 15 === 0) continue; 
     
     activities.push({
       id: `act-${internId}-${i}`,
       internId,
-      date: d.toISOString().split('T')[0],
-      timestamp: d.toISOString(),
+      date: daysFromToday(-i),
+      timestamp: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString(),
       hours: Math.random() > 0.3 ? 3 : 2,
       category: ActivityCategory.LEARNING,
       description: "Working on the core requirements and researching Google Sheets API integrations for our activity tracker project.",
@@ -51,3 +63,10 @@ export const INITIAL_ACTIVITIES: Activity[] = [
     ...generateActivities('INT-1000'),
     ...generateActivities('INT-1001'),
 ];
+
+export const MOCK_HOLIDAYS: Holiday[] = [
+  { date: '2026-01-26', name: 'Republic Day' },
+  { date: '2026-08-15', name: 'Independence Day' },
+  { date: '2026-10-02', name: 'Gandhi Jayanti' },
+  { date: '2026-12-25', name: 'Christmas' }
+];
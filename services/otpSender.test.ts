@@ -0,0 +1,26 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { User, UserRole } from '../types';
+import { SheetsOtpSender } from './otpSender';
+
+const alice: User = { id: 'u1', email: 'alice@example.org', name: 'Alice', role: UserRole.INTERN, internId: 'TNT_0001', joiningDate: '2024-05-01' };
+
+const answer = (body: object) => vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body))));
+
+describe('SheetsOtpSender', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes on the deployment verdict', async () => {
+    const sender = new SheetsOtpSender('https://script.example/exec');
+    answer({ valid: true });
+    expect(await sender.verify(alice, '123456')).toBe(true);
+    answer({ valid: false });
+    expect(await sender.verify(alice, '123456')).toBe(false);
+  });
+
+  it('fails loudly against a deployment without the verifyCode action', async () => {
+    answer({ interns: [], activities: [] });
+    await expect(new SheetsOtpSender('https://script.example/exec').verify(alice, '123456')).rejects.toThrow('does not support sign-in codes');
+  });
+});
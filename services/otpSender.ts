@@ -0,0 +1,114 @@
+import { User } from '../types';
+import { CONFIG } from './config';
+import { isSheetConfigured } from './createDataStore';
+import { randomDigits, sha256Hex, safeEqual } from '../utils/crypto';
+
+/**
+ * Issues and checks one-time sign-in codes. `delivery` says where the code went,
+ * so the sign-in screen can tell the user what actually happened.
+ */
+export interface OtpSender {
+  readonly delivery: 'email' | 'console';
+  send(user: User): Promise<void>;
+  verify(user: User, code: string): Promise<boolean>;
+}
+
+interface PendingCode {
+  hash: string;
+  expiresAt: number;
+}
+
+const PENDING_CODES_KEY = 'cial_auth_pending_codes';
+
+/**
+ * Dev stand-in: prints the code to the browser console and checks it locally.
+ * Anyone at the keyboard can read it, so it is only created for dev builds and the memory backend.
+ */
+export class ConsoleOtpSender implements OtpSender {
+  readonly delivery = 'console';
+
+  async send(user: User): Promise<void> {
+    const code = randomDigits(CONFIG.AUTH.OTP_LENGTH);
+    const pending = this.readPending();
+    pending[user.internId] = {
+      hash: await sha256Hex(`${user.internId}:${code}`),
+      expiresAt: Date.now() + CONFIG.AUTH.OTP_TTL_MINUTES * 60 * 1000
+    };
+    this.writePending(pending);
+    console.info(`[CIAL Auth] One-time code for ${user.name} (${user.internId}): ${code}`);
+  }
+
+  async verify(user: User, code: string): Promise<boolean> {
+    const pending = this.readPending();
+    const entry = pending[user.internId];
+    if (!entry || entry.expiresAt < Date.now()) throw new Error('Code expired. Request a new one.');
+    if (!safeEqual(await sha256Hex(`${user.internId}:${code.trim()}`), entry.hash)) return false;
+    delete pending[user.internId];
+    this.writePending(pending);
+    return true;
+  }
+
+  private readPending(): Record<string, PendingCode> {
+    try {
+      return JSON.parse(sessionStorage.getItem(PENDING_CODES_KEY) || '{}');
+    } catch (e) {
+      return {};
+    }
+  }
+
+  private writePending(pending: Record<string, PendingCode>) {
+    sessionStorage.setItem(PENDING_CODES_KEY, JSON.stringify(pending));
+  }
+}
+
+/**
+ * The Apps Script deployment generates the code, emails it via MailApp to the address
+ * on the roster, and checks it: POST `{ action: 'requestCode', internId }`, then
+ * GET `?action=verifyCode&internId=…&code=…` answering `{ valid }`. The code never
+ * reaches the browser, and the script enforces expiry and its own attempt limit.
+ * apps-script/Code.gs implements both actions.
+ */
+export class SheetsOtpSender implements OtpSender {
+  readonly delivery = 'email';
+
+  constructor(private url: string) {}
+
+  async send(user: User): Promise<void> {
+    await fetch(this.url, {
+      method: 'POST',
+      mode: 'no-cors',
+      headers: { 'Content-Type': 'text/plain' },
+      body: JSON.stringify({ action: 'requestCode', internId: user.internId })
+    });
+  }
+
+  async verify(user: User, code: string): Promise<boolean> {
+    const query = new URLSearchParams({ action: 'verifyCode', internId: user.internId, code: code.trim() });
+    const response = await fetch(`${this.url}${this.url.includes('?') ? '&' : '?'}${query}`, { cache: 'no-store' });
+    if (!response.ok) throw new Error('Could not check the code. Please try again.');
+    const json = await response.json();
+    if (json.error) throw new Error(json.error);
+    // An older deployment answers with the data snapshot; refusing the code would count toward lockout
+    if (typeof json.valid !== 'boolean') throw new Error('This Google Sheet deployment does not support sign-in codes. Update its Apps Script (see the README) or sign in with your PIN.');
+    return json.valid;
+  }
+}
+
+/** Used when no email channel exists, so codes are refused rather than printed where anyone can read them. */
+export class UnavailableOtpSender implements OtpSender {
+  readonly delivery = 'email';
+
+  async send(): Promise<void> {
+    throw new Error('Sign-in codes are not available: no Google Sheet deployment is configured. Sign in with your PIN or contact the program team.');
+  }
+
+  async verify(): Promise<boolean> {
+    return false;
+  }
+}
+
+export const createOtpSender = (): OtpSender => {
+  if (isSheetConfigured()) return new SheetsOtpSender(CONFIG.GOOGLE_SHEET_API_URL.trim());
+  if (import.meta.env.DEV || CONFIG.DATA_BACKEND === 'memory') return new ConsoleOtpSender();
+  return new UnavailableOtpSender();
+};
@@ -0,0 +1,166 @@
+import { Activity } from '../types';
+import { DataStore } from './dataStore';
+import { CONFIG } from './config';
+
+export type OutboxStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+export interface OutboxItem {
+  activity: Activity;
+  status: OutboxStatus;
+  attempts: number;        // send attempts
+  confirmChecks: number;   // re-reads since the last send
+  nextAttemptAt: number;
+  updatedAt: number;
+  lastError?: string;
+}
+
+const OUTBOX_KEY = 'cial_outbox';
+const CONFIRMED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Persistent queue of activity submissions. Each item is sent to the store,
+ * then re-read from it until the record shows up; only then is it `confirmed`.
+ * Failures back off exponentially and are retried when the browser comes online.
+ */
+export class SubmissionOutbox {
+  private listeners = new Set<() => void>();
+  private flushing: Promise<void> | null = null;
+  private timer: number | undefined;
+
+  constructor(private resolveStore: () => DataStore) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flush());
+      this.schedule();
+    }
+  }
+
+  private read(): OutboxItem[] {
+    try {
+      const stored = localStorage.getItem(OUTBOX_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private write(items: OutboxItem[]) {
+    const cutoff = Date.now() - CONFIRMED_RETENTION_MS;
+    const kept = items.filter(i => i.status !== 'confirmed' || i.updatedAt > cutoff);
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(kept));
+    this.listeners.forEach(listener => listener());
+  }
+
+  private patch(id: string, changes: Partial<OutboxItem>) {
+    this.write(this.read().map(i => i.activity.id === id ? { ...i, ...changes, updatedAt: Date.now() } : i));
+  }
+
+  private backoff(attempt: number): number {
+    const { RETRY_BASE_MS, RETRY_MAX_MS } = CONFIG.SYNC_SETTINGS;
+    return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempt - 1, 0)), RETRY_MAX_MS);
+  }
+
+  enqueue(activity: Activity): OutboxItem {
+    const item: OutboxItem = {
+      activity,
+      status: 'pending',
+      attempts: 0,
+      confirmChecks: 0,
+      nextAttemptAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    this.write([...this.read(), item]);
+    this.flush();
+    return item;
+  }
+
+  list(internId?: string): OutboxItem[] {
+    const items = this.read();
+    return internId ? items.filter(i => i.activity.internId === internId) : items;
+  }
+
+  /** Items whose remote copy has not been confirmed yet. */
+  unsynced(internId?: string): OutboxItem[] {
+    return this.list(internId).filter(i => i.status !== 'confirmed');
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Processes every due item. `force` ignores backoff, e.g. for a manual "Sync Now". */
+  flush(force = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.process(force).finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async process(force: boolean) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    const due = this.unsynced().filter(i => force || i.nextAttemptAt <= Date.now());
+    for (const item of due) {
+      if (item.status === 'sent') await this.confirm(item);
+      else await this.send(item);
+    }
+  }
+
+  private async send(item: OutboxItem) {
+    const attempts = item.attempts + 1;
+    try {
+      await this.resolveStore().createActivity(item.activity);
+      this.patch(item.activity.id, {
+        status: 'sent',
+        attempts,
+        confirmChecks: 0,
+        nextAttemptAt: Date.now() + CONFIG.SYNC_SETTINGS.RETRY_BASE_MS,
+        lastError: undefined
+      });
+    } catch (err: any) {
+      this.patch(item.activity.id, {
+        status: 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + this.backoff(attempts),
+        lastError: err?.message || 'Send failed'
+      });
+    }
+  }
+
+  private async confirm(item: OutboxItem) {
+    const checks = item.confirmChecks + 1;
+    try {
+      const remote = await this.resolveStore().getActivity(item.activity.id);
+      if (remote) {
+        this.patch(item.activity.id, { status: 'confirmed', confirmChecks: checks, lastError: undefined });
+        return;
+      }
+      if (checks >= CONFIG.SYNC_SETTINGS.CONFIRM_ATTEMPTS) {
+        // The write never landed; send it again (the id is stable, so the sheet can de-duplicate)
+        this.patch(item.activity.id, {
+          status: 'failed',
+          confirmChecks: checks,
+          nextAttemptAt: Date.now() + this.backoff(item.attempts),
+          lastError: 'Record not found in data source'
+        });
+        return;
+      }
+      this.patch(item.activity.id, { confirmChecks: checks, nextAttemptAt: Date.now() + this.backoff(checks) });
+    } catch (err: any) {
+      this.patch(item.activity.id, {
+        nextAttemptAt: Date.now() + this.backoff(checks),
+        lastError: err?.message || 'Confirmation failed'
+      });
+    }
+  }
+
+  private schedule() {
+    if (typeof window === 'undefined') return;
+    window.clearTimeout(this.timer);
+    const next = this.unsynced().reduce((min, i) => Math.min(min, i.nextAttemptAt), Infinity);
+    if (next === Infinity) return;
+    this.timer = window.setTimeout(() => this.flush(), Math.max(next - Date.now(), 0));
+  }
+}
@@ -0,0 +1,38 @@
+import { User, UserRole, Permission, Cohort } from '../types';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.INTERN]: [Permission.VIEW_OWN_ACTIVITY, Permission.SUBMIT_ACTIVITY, Permission.REQUEST_LEAVE],
+  [UserRole.MENTOR]: [Permission.VIEW_ASSIGNED_INTERNS, Permission.REVIEW_ACTIVITY, Permission.APPROVE_LEAVE, Permission.EXPORT_DATA],
+  [UserRole.REVIEWER]: [Permission.VIEW_ALL_INTERNS, Permission.REVIEW_ACTIVITY],
+  [UserRole.ADMIN]: [
+    Permission.VIEW_ALL_INTERNS,
+    Permission.REVIEW_ACTIVITY,
+    Permission.APPROVE_LEAVE,
+    Permission.EDIT_ANY_ACTIVITY,
+    Permission.EXPORT_DATA,
+    Permission.ISSUE_CERTIFICATE,
+    Permission.MANAGE_ROSTER,
+    Permission.MANAGE_CONFIG
+  ]
+};
+
+export const hasPermission = (user: User | null, permission: Permission): boolean =>
+  !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+/** Whether `viewer` may see the records of `intern`. Mentors are scoped to their cohorts and direct assignees. */
+export const canAccessIntern = (viewer: User | null, intern: User, cohorts: Cohort[]): boolean => {
+  if (!viewer) return false;
+  if (hasPermission(viewer, Permission.VIEW_ALL_INTERNS)) return true;
+  if (hasPermission(viewer, Permission.VIEW_ASSIGNED_INTERNS)) {
+    if (intern.mentorId === viewer.internId) return true;
+    const cohort = cohorts.find(c => c.id === intern.cohortId);
+    return !!cohort && cohort.mentorIds.includes(viewer.internId);
+  }
+  return hasPermission(viewer, Permission.VIEW_OWN_ACTIVITY) && viewer.internId === intern.internId;
+};
+
+export const assertPermission = (user: User | null, permission: Permission) => {
+  if (!hasPermission(user, permission)) {
+    throw new Error(`Access denied: ${user ? user.role : 'signed-out user'} lacks ${permission}.`);
+  }
+};
@@ -0,0 +1,138 @@
+import { GoogleGenAI, Type, ApiError } from "@google/genai";
+import { ActivityCategory, QualityAssessment, QualityCriterion } from '../types';
+import { CONFIG } from './config';
+import { QUALITY_RUBRIC, ScorableActivity, buildScoringPrompt, parseAssessment } from '../utils/quality';
+
+export type ScoreResult = Pick<QualityAssessment, 'scores' | 'feedback' | 'flags'>;
+
+/** Rates an entry against QUALITY_RUBRIC. Rejects when it cannot produce a score. */
+export interface QualityScorer {
+  readonly name: string;
+  score(activity: ScorableActivity): Promise<ScoreResult>;
+}
+
+export interface GeminiSettings {
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits and server hiccups are worth another try; bad requests and auth errors are not
+const isRetryable = (error: any): boolean =>
+  error instanceof ApiError ? error.status === 429 || error.status >= 500 : error?.name === 'AbortError';
+
+/** Gemini with a JSON response schema. The client is created on first use, never at import. */
+export class GeminiScorer implements QualityScorer {
+  private client: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string, private settings: GeminiSettings) {}
+
+  get name(): string {
+    return this.settings.model;
+  }
+
+  async score(activity: ScorableActivity): Promise<ScoreResult> {
+    const { maxRetries, retryBaseMs } = this.settings;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request(activity);
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) throw error;
+        await sleep(retryBaseMs * Math.pow(2, attempt));
+      }
+    }
+  }
+
+  private async request(activity: ScorableActivity): Promise<ScoreResult> {
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.settings.timeoutMs);
+    const { system, content } = buildScoringPrompt(activity);
+    try {
+      const response = await this.client.models.generateContent({
+        model: this.settings.model,
+        contents: content,
+        config: {
+          systemInstruction: system,
+          abortSignal: controller.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              ...Object.fromEntries(QUALITY_RUBRIC.map(c => [c.key, { type: Type.INTEGER }])),
+              feedback: { type: Type.STRING },
+              manipulation: { type: Type.BOOLEAN }
+            },
+            required: [...QUALITY_RUBRIC.map(c => c.key), "feedback", "manipulation"]
+          }
+        }
+      });
+      const { scores, feedback, manipulation } = parseAssessment(response.text);
+      return { scores, feedback, flags: manipulation ? ['The AI scorer reported an attempt to steer it.'] : undefined };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+const CATEGORY_TERMS: Record<ActivityCategory, string[]> = {
+  [ActivityCategory.LEARNING]: ['learn', 'course', 'tutorial', 'read', 'studied', 'study', 'video', 'documentation', 'docs', 'lecture', 'concept'],
+  [ActivityCategory.PRACTICE]: ['practice', 'exercise', 'problem', 'kata', 'drill', 'challenge', 'solved', 'leetcode', 'attempt'],
+  [ActivityCategory.ASSIGNMENT]: ['assignment', 'task', 'submitted', 'deadline', 'requirement', 'deliverable', 'assigned'],
+  [ActivityCategory.PROJECT]: ['feature', 'implement', 'built', 'build', 'deploy', 'commit', 'module', 'component', 'api', 'bug', 'refactor'],
+  [ActivityCategory.RESEARCH]: ['research', 'paper', 'compare', 'compared', 'survey', 'explore', 'explored', 'analysis', 'benchmark', 'evaluate']
+};
+
+const LEARNING_TERMS = ['learned', 'learnt', 'understood', 'realized', 'realised', 'discovered', 'figured', 'because', 'why', 'stuck', 'mistake', 'fixed', 'debugged', 'issue', 'next', 'improve', 'insight', 'difference'];
+const EVIDENCE_TERMS = ['screenshot', 'link', 'repo', 'commit', 'pull request', 'notebook', 'attached', 'demo', 'output'];
+
+const TIPS: Record<QualityCriterion, string> = {
+  specificity: 'Name the exact tools, files or results you worked on so a reviewer can picture the day.',
+  learning: 'Add a line on what you learned or what got you stuck, not only what you did.',
+  relevance: 'Make sure the work you describe matches the category and the hours you logged.',
+  evidence: 'Attach proof (a screenshot, commit or link) and mention what it shows.'
+};
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+const countHits = (words: string[], text: string, terms: string[]) =>
+  terms.filter(term => term.includes(' ') ? text.includes(term) : words.some(w => w.startsWith(term))).length;
+
+/**
+ * Offline scorer built from plain text signals: length, vocabulary, concrete tokens,
+ * learning and category keywords, and attached proof. Same input, same scores.
+ */
+export class HeuristicScorer implements QualityScorer {
+  readonly name = 'heuristic';
+
+  async score(activity: ScorableActivity): Promise<ScoreResult> {
+    const text = activity.description.toLowerCase();
+    const words = text.match(/[a-z0-9][a-z0-9'+#.-]*/g) || [];
+    const distinct = new Set(words).size;
+    // Numbers, file names, dotted or camelCase identifiers read as concrete detail
+    const concrete = (activity.description.match(/\b\d+(\.\d+)?\b|\b\w+\.\w{1,5}\b|\b[a-z]+[A-Z]\w*\b/g) || []).length;
+    const proof = activity.proofLink || '';
+
+    const scores: Record<QualityCriterion, number> = {
+      specificity: clampScore(1 + Math.min(words.length / 20, 4) + Math.min(distinct / Math.max(words.length, 1) * 3, 2) + Math.min(concrete, 3)),
+      learning: clampScore(2 + countHits(words, text, LEARNING_TERMS) * 2),
+      relevance: clampScore(3 + countHits(words, text, CATEGORY_TERMS[activity.category] || []) * 2),
+      evidence: clampScore((proof.startsWith('http') ? 8 : proof ? 7 : 2) + Math.min(countHits(words, text, EVIDENCE_TERMS), 2))
+    };
+
+    const weakest = QUALITY_RUBRIC.reduce((low, c) => scores[c.key] < scores[low.key] ? c : low);
+    return { scores, feedback: scores[weakest.key] >= 8 ? 'Clear, well-evidenced log — keep writing them like this.' : TIPS[weakest.key] };
+  }
+}
+
+export const createQualityScorer = (): QualityScorer => {
+  const { SCORER, API_KEY, MODEL, TIMEOUT_MS, MAX_RETRIES, RETRY_BASE_MS } = CONFIG.AI;
+  // Without a key every Gemini call would fail, so score locally instead
+  if (SCORER === 'gemini' && API_KEY) {
+    return new GeminiScorer(API_KEY, { model: MODEL, timeoutMs: TIMEOUT_MS, maxRetries: MAX_RETRIES, retryBaseMs: RETRY_BASE_MS });
+  }
+  return new HeuristicScorer();
+};
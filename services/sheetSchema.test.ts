@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { UserRole } from '../types';
+import { toIsoDate, parseActivityRows, parseStaffRows } from './sheetSchema';
+
+const row = (date: any) => ({ id: 'a1', internId: 'TNT_0001', date, hours: 4, category: 'project' });
+
+describe('sheet date cells', () => {
+  it('reads ISO text, serialized instants on the program calendar and serial day numbers', () => {
+    expect(toIsoDate('2024-05-01')).toBe('2024-05-01');
+    expect(toIsoDate('2024-04-30T18:30:00.000Z')).toBe('2024-05-01'); // IST midnight
+    expect(toIsoDate(45413)).toBe('2024-05-01');
+    expect(toIsoDate('45413')).toBe('2024-05-01');
+    expect(toIsoDate('1 May 2024')).toBe('2024-05-01');
+  });
+
+  it('refuses day/month orders it would have to guess', () => {
+    expect(toIsoDate('01/05/2024')).toBe('');
+    expect(toIsoDate('2024/05/01')).toBe('');
+    const { records, rejected } = parseActivityRows([row('01/05/2024')]);
+    expect(records).toHaveLength(0);
+    expect(rejected[0].reasons[0]).toContain('ambiguous');
+  });
+
+  it('rejects impossible days and years outside the program range', () => {
+    expect(toIsoDate('2024-02-30')).toBe('');
+    expect(toIsoDate('45413-01-01')).toBe('');
+    expect(toIsoDate(3)).toBe(''); // Serial 3 is 1900
+    expect(toIsoDate('2999-01-01')).toBe('');
+    expect(parseActivityRows([row('2024-13-01')]).rejected).toHaveLength(1);
+  });
+});
+
+describe('staff rows', () => {
+  it('rejects a blank or misspelled role instead of granting admin', () => {
+    const { records, rejected } = parseStaffRows([
+      { 'Staff ID': 'men-002', Name: 'Batch B Mentor', Role: 'mentor' },
+      { 'Staff ID': 'ADM-009', Name: 'Typo', Role: 'Admn' },
+      { 'Staff ID': 'ADM-010', Name: 'Blank', Role: '' }
+    ]);
+    expect(records.map(r => [r.internId, r.role])).toEqual([['MEN-002', UserRole.MENTOR]]);
+    expect(rejected.map(r => [r.tab, r.row, r.key])).toEqual([['staff', 3, 'ADM-009'], ['staff', 4, 'ADM-010']]);
+    expect(rejected[1].reasons).toEqual(['Missing Role.']);
+  });
+});
+
+describe('review cells', () => {
+  it('reads a review stored as JSON text, as the Apps Script writes it', () => {
+    const stored = JSON.stringify({ status: 'approved', reviewerId: 'men-001', comment: 'Good detail', reviewedAt: '2024-05-03T10:00:00.000Z' });
+    const { records } = parseActivityRows([{ ...row('2024-05-01'), review: stored }]);
+    expect(records[0].review).toEqual({ status: 'approved', reviewerId: 'MEN-001', comment: 'Good detail', reviewedAt: '2024-05-03T10:00:00.000Z' });
+  });
+
+  it('still reads the flat review columns', () => {
+    const { records } = parseActivityRows([{ ...row('2024-05-01'), 'Review Status': 'Needs-Revision', 'Reviewer ID': 'men-001' }]);
+    expect(records[0].review).toMatchObject({ status: 'needs-revision', reviewerId: 'MEN-001' });
+  });
+
+  it('rejects a row whose review cannot be read instead of dropping the decision', () => {
+    const { records, rejected } = parseActivityRows([
+      { ...row('2024-05-01'), review: '{"status": "approved"' },
+      { ...row('2024-05-02'), id: 'a2', review: { status: 'maybe' } }
+    ]);
+    expect(records).toHaveLength(0);
+    expect(rejected.map(r => r.reasons[0])).toEqual([
+      'Review: "{"status": "approved"" is not a review object.',
+      'Review: unknown review status "maybe".'
+    ]);
+  });
+});
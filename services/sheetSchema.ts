@@ -0,0 +1,289 @@
+import { User, Activity, ActivityCategory, ActivityReview, Cohort, ReviewStatus, SimilarityMatch, UserRole } from '../types';
+import { validateIntern } from '../utils/roster';
+import { readDate } from '../utils/dates';
+
+/**
+ * Version of the sheet contract this client reads. The Apps Script reports the
+ * version it serves as `schemaVersion`; a different one is refused rather than guessed at.
+ */
+export const SHEET_SCHEMA_VERSION = 2;
+
+export interface RejectedRow {
+  tab: string;
+  row: number; // Sheet row number, header being row 1
+  key?: string; // ID cell, when the row had one
+  reasons: string[];
+}
+
+/** Outcome of the last pull from the sheet, shown to admins. */
+export interface SyncReport {
+  checkedAt: string;
+  schemaVersion?: number;
+  rejected: RejectedRow[];
+  warnings: string[];
+}
+
+interface Column {
+  field: string;
+  headers: string[]; // Accepted headers, compared after dropping case, spaces and punctuation
+  required?: boolean;
+  parse?: (value: any) => any; // Throws with a reason when the cell is unusable
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Cell under the first matching header. Exact header matches only: "ID" never picks up "Cohort ID". */
+export const pick = (row: Record<string, any>, headers: string[]): any => {
+  const keys = Object.keys(row);
+  for (const header of headers.map(normalizeHeader)) {
+    const key = keys.find(k => normalizeHeader(k) === header);
+    if (key !== undefined) return row[key];
+  }
+  return undefined;
+};
+
+const isBlank = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+/** Lenient form for optional fields: an unusable cell becomes "". */
+export const toIsoDate = (value: any): string => {
+  if (isBlank(value)) return "";
+  try {
+    return readDate(value);
+  } catch (e) {
+    return "";
+  }
+};
+
+const text = (value: any) => String(value).trim();
+const upper = (value: any) => String(value).trim().toUpperCase();
+
+const isoDate = (value: any) => readDate(value);
+
+const number = (value: any) => {
+  const n = Number(value);
+  if (!isFinite(n) || n < 0) throw new Error(`"${value}" is not a non-negative number`);
+  return n;
+};
+
+const flag = (value: any) => {
+  if (typeof value === 'boolean') return value;
+  const t = String(value).trim().toLowerCase();
+  if (['true', 'yes', '1', 'active'].includes(t)) return true;
+  if (['false', 'no', '0', 'inactive'].includes(t)) return false;
+  throw new Error(`"${value}" is not yes/no`);
+};
+
+const oneOf = (values: string[], caseFold: (v: string) => string = v => v) => (value: any) => {
+  const match = values.find(v => caseFold(v) === caseFold(String(value).trim()));
+  if (!match) throw new Error(`"${value}" is not one of ${values.join(', ')}`);
+  return match;
+};
+
+// Revisions, sessions, quality and similarity are stored as JSON text cells; a damaged cell loses that detail, not the entry
+const jsonValue = (value: any) => {
+  if (typeof value === 'object') return value;
+  try {
+    return JSON.parse(String(value));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const jsonList = (value: any) => {
+  const parsed = jsonValue(value);
+  return Array.isArray(parsed) ? parsed : undefined;
+};
+
+const jsonObject = (value: any) => {
+  const parsed = jsonValue(value);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+};
+
+// Unlike the detail columns above, a review decides whether the entry counts, so a bad cell rejects the row
+const review = (value: any): ActivityReview => {
+  const parsed = jsonObject(value);
+  if (!parsed) throw new Error(`"${value}" is not a review object`);
+  const status = String(parsed.status || '').trim().toLowerCase();
+  if (!(Object.values(ReviewStatus) as string[]).includes(status)) throw new Error(`unknown review status "${parsed.status}"`);
+  return {
+    status: status as ReviewStatus,
+    reviewerId: parsed.reviewerId ? upper(parsed.reviewerId) : undefined,
+    comment: parsed.comment ? String(parsed.comment) : undefined,
+    reviewedAt: parsed.reviewedAt ? text(parsed.reviewedAt) : undefined
+  };
+};
+
+// Older rows named the matching intern; only what the entry's own intern may see is kept
+const similarityMatch = (value: any, internId: string): SimilarityMatch | undefined =>
+  value && typeof value.score === 'number'
+    ? { score: value.score, own: typeof value.own === 'boolean' ? value.own : value.internId === internId, date: String(value.date || '') }
+    : undefined;
+
+const INTERN_COLUMNS: Column[] = [
+  { field: 'internId', headers: ['Intern ID', 'ID'], required: true, parse: upper },
+  { field: 'name', headers: ['Name', 'Full Name', 'Student Name'], required: true, parse: text },
+  { field: 'email', headers: ['Email', 'Email Address'], required: true, parse: v => text(v).toLowerCase() },
+  { field: 'cohort', headers: ['Cohort', 'Cohort ID', 'Batch'], parse: upper },
+  { field: 'mentorId', headers: ['Mentor', 'Mentor ID'], parse: upper },
+  { field: 'joiningDate', headers: ['Joining Date', 'Start Date'], parse: isoDate },
+  { field: 'active', headers: ['Active'], parse: flag }
+];
+
+const STAFF_COLUMNS: Column[] = [
+  { field: 'internId', headers: ['Staff ID', 'ID'], required: true, parse: upper },
+  { field: 'name', headers: ['Name', 'Full Name'], parse: text },
+  { field: 'email', headers: ['Email', 'Email Address'], parse: text },
+  // No default: a blank or misspelled role must not become admin rights
+  { field: 'role', headers: ['Role'], required: true, parse: oneOf([UserRole.MENTOR, UserRole.REVIEWER, UserRole.ADMIN], v => v.toUpperCase()) },
+  { field: 'joiningDate', headers: ['Joining Date', 'Start Date'], parse: toIsoDate }
+];
+
+const ACTIVITY_COLUMNS: Column[] = [
+  { field: 'id', headers: ['ID', 'Activity ID'], required: true, parse: text },
+  { field: 'internId', headers: ['Intern ID'], required: true, parse: upper },
+  { field: 'date', headers: ['Date'], required: true, parse: isoDate },
+  { field: 'hours', headers: ['Hours'], required: true, parse: number },
+  { field: 'category', headers: ['Category'], required: true, parse: oneOf(Object.values(ActivityCategory), v => v.toLowerCase()) },
+  { field: 'description', headers: ['Description'], parse: String },
+  { field: 'proofLink', headers: ['Proof Link', 'Proof'], parse: text },
+  { field: 'timestamp', headers: ['Timestamp', 'Submitted At'], parse: text },
+  { field: 'qualityScore', headers: ['Quality Score'], parse: number },
+  { field: 'quality', headers: ['Quality', 'Quality Assessment'], parse: jsonObject },
+  { field: 'similarity', headers: ['Similarity', 'Similarity Match'], parse: jsonObject },
+  { field: 'review', headers: ['Review'], parse: review },
+  { field: 'reviewStatus', headers: ['Review Status'], parse: oneOf(Object.values(ReviewStatus), v => v.toLowerCase()) },
+  { field: 'reviewerId', headers: ['Reviewer ID', 'Reviewer'], parse: upper },
+  { field: 'reviewComment', headers: ['Review Comment'], parse: String },
+  { field: 'reviewedAt', headers: ['Reviewed At'], parse: text },
+  { field: 'isLate', headers: ['Is Late', 'Late'], parse: flag },
+  { field: 'withdrawn', headers: ['Withdrawn'], parse: flag },
+  { field: 'sessions', headers: ['Sessions'], parse: jsonList },
+  { field: 'trackedMinutes', headers: ['Tracked Minutes'], parse: number },
+  { field: 'revisions', headers: ['Revisions'], parse: jsonList },
+  { field: 'updatedAt', headers: ['Updated At'], parse: text }
+];
+
+/** Reads the declared columns of one row; unknown columns are ignored, bad cells become reasons. */
+const readColumns = (row: Record<string, any>, columns: Column[]): { values: Record<string, any>; reasons: string[] } => {
+  const values: Record<string, any> = {};
+  const reasons: string[] = [];
+  columns.forEach(column => {
+    const raw = pick(row, [column.field, ...column.headers]);
+    if (isBlank(raw)) {
+      if (column.required) reasons.push(`Missing ${column.headers[0]}.`);
+      return;
+    }
+    try {
+      values[column.field] = column.parse ? column.parse(raw) : raw;
+    } catch (e: any) {
+      reasons.push(`${column.headers[0]}: ${e.message}.`);
+    }
+  });
+  return { values, reasons };
+};
+
+/** Typed records plus a rejection per unusable row. Later rows repeating an ID are rejected too. */
+const parseTab = <T>(
+  tab: string,
+  rows: any[],
+  columns: Column[],
+  build: (values: Record<string, any>, reasons: string[]) => T,
+  keyOf: (record: T) => string
+): { records: T[]; rejected: RejectedRow[] } => {
+  const records: T[] = [];
+  const rejected: RejectedRow[] = [];
+  const seen = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    if (!row || typeof row !== 'object') {
+      rejected.push({ tab, row: line, reasons: ['Row is not an object.'] });
+      return;
+    }
+    const { values, reasons } = readColumns(row, columns);
+    const record = build(values, reasons);
+    const key = keyOf(record);
+    if (key && seen.has(key)) reasons.push(`Duplicate ID (first seen on row ${seen.get(key)}).`);
+    if (reasons.length > 0) {
+      rejected.push({ tab, row: line, key: key || undefined, reasons });
+      return;
+    }
+    seen.set(key, line);
+    records.push(record);
+  });
+  return { records, rejected };
+};
+
+export const parseInternRows = (rows: any[], cohorts: Cohort[]) => parseTab<User>(
+  'interns',
+  rows,
+  INTERN_COLUMNS,
+  (v, reasons) => {
+    const cohort = v.cohort ? cohorts.find(c => c.id === v.cohort || c.name.toUpperCase() === v.cohort) : undefined;
+    if (v.cohort && !cohort) reasons.push(`Unknown cohort "${v.cohort}".`);
+    const user: User = {
+      id: `sheet-${v.internId}`,
+      name: v.name || '',
+      internId: v.internId || '',
+      email: v.email || '',
+      role: UserRole.INTERN,
+      joiningDate: v.joiningDate || cohort?.startDate || '',
+      cohortId: cohort?.id,
+      mentorId: v.mentorId || undefined,
+      active: v.active === false ? false : undefined
+    };
+    // Same rules as the roster manager, minus what the column checks already reported
+    validateIntern(user, cohorts).forEach(e => {
+      if (!reasons.some(r => r.toLowerCase() === e.toLowerCase())) reasons.push(e);
+    });
+    return user;
+  },
+  user => user.internId
+);
+
+export const parseStaffRows = (rows: any[]) => parseTab<User>(
+  'staff',
+  rows,
+  STAFF_COLUMNS,
+  (v) => ({
+    id: `staff-${v.internId}`,
+    name: v.name || 'Unknown',
+    internId: v.internId || '',
+    email: v.email || '',
+    role: v.role,
+    joiningDate: v.joiningDate || ''
+  }),
+  user => user.internId
+);
+
+export const parseActivityRows = (rows: any[]) => parseTab<Activity>(
+  'activities',
+  rows,
+  ACTIVITY_COLUMNS,
+  (v) => ({
+    id: v.id || '',
+    internId: v.internId || '',
+    date: v.date || '',
+    hours: v.hours ?? 0,
+    category: v.category,
+    description: v.description || '',
+    proofLink: v.proofLink || '',
+    timestamp: v.timestamp || '',
+    qualityScore: v.qualityScore,
+    quality: v.quality,
+    similarity: similarityMatch(v.similarity, v.internId || ''),
+    // Review fields arrive either as a nested object or as flat reviewStatus/reviewerId/... columns
+    review: v.review || (v.reviewStatus ? {
+      status: v.reviewStatus,
+      reviewerId: v.reviewerId || undefined,
+      comment: v.reviewComment || undefined,
+      reviewedAt: v.reviewedAt || undefined
+    } : undefined),
+    isLate: v.isLate || undefined,
+    withdrawn: v.withdrawn || undefined,
+    sessions: v.sessions,
+    trackedMinutes: v.trackedMinutes,
+    revisions: v.revisions,
+    updatedAt: v.updatedAt || undefined
+  }),
+  activity => activity.id
+);
@@ -0,0 +1,75 @@
+import { CONFIG } from './config';
+import { shingles, minHashSignature, estimateSimilarity, jaccard } from '../utils/similarity';
+
+export interface SimilarityCandidate {
+  id: string;
+  internId: string;
+  date: string;
+  text: string;
+}
+
+export interface RankedCandidate {
+  candidate: SimilarityCandidate;
+  score: number; // 0-1
+}
+
+/** Finds earlier texts resembling a new one. Implementations may cache per candidate id. */
+export interface SimilarityProvider {
+  readonly name: string;
+  closest(text: string, candidates: SimilarityCandidate[]): Promise<RankedCandidate | null>;
+}
+
+interface Fingerprint {
+  text: string;
+  shingles: Set<string>;
+  signature: Uint32Array;
+}
+
+// MinHash estimates drift by a few points either way; anything this close to the best is checked exactly
+const SHORTLIST_MARGIN = 0.15;
+
+/**
+ * MinHash over word shingles. Signatures are cached by candidate id, so repeated checks
+ * only fingerprint new or edited entries; the shortlist is then scored by exact Jaccard.
+ */
+export class MinHashProvider implements SimilarityProvider {
+  readonly name = 'minhash';
+  private cache = new Map<string, Fingerprint>();
+
+  async closest(text: string, candidates: SimilarityCandidate[]): Promise<RankedCandidate | null> {
+    const probe = this.fingerprint(text);
+    if (probe.shingles.size === 0) return null;
+
+    const estimates = candidates
+      .map(candidate => ({ candidate, estimate: estimateSimilarity(probe.signature, this.cached(candidate).signature) }))
+      .filter(e => e.estimate > 0);
+    if (estimates.length === 0) return null;
+    const best = Math.max(...estimates.map(e => e.estimate));
+
+    return estimates
+      .filter(e => e.estimate >= best - SHORTLIST_MARGIN)
+      .map(({ candidate }) => ({ candidate, score: jaccard(probe.shingles, this.cached(candidate).shingles) }))
+      .reduce<RankedCandidate | null>((top, next) => !top || next.score > top.score ? next : top, null);
+  }
+
+  private fingerprint(text: string): Fingerprint {
+    const set = shingles(text);
+    return { text, shingles: set, signature: minHashSignature(set) };
+  }
+
+  private cached(candidate: SimilarityCandidate): Fingerprint {
+    const hit = this.cache.get(candidate.id);
+    if (hit && hit.text === candidate.text) return hit;
+    const fresh = this.fingerprint(candidate.text);
+    this.cache.set(candidate.id, fresh);
+    return fresh;
+  }
+}
+
+export const createSimilarityProvider = (provider = CONFIG.SIMILARITY.PROVIDER): SimilarityProvider => {
+  switch (provider) {
+    case 'minhash':
+    default:
+      return new MinHashProvider();
+  }
+};
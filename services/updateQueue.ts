@@ -0,0 +1,159 @@
+import { CONFIG } from './config';
+
+export type UpdateKind = 'activity' | 'leave';
+
+/** Records carry `updatedAt`, so a pull can tell whether the sheet has caught up with a change. */
+export interface VersionedRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+export interface PendingUpdate {
+  kind: UpdateKind;
+  record: VersionedRecord;  // The whole record after the change
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;         // send attempts
+  confirmChecks: number;    // re-reads since the last send
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const UPDATES_KEY = 'cial_pending_updates';
+
+const sameRecord = (a: PendingUpdate, kind: UpdateKind, id: string) => a.kind === kind && a.record.id === id;
+
+/**
+ * Persistent queue of changes to existing records (edits, withdrawals, review and leave
+ * decisions). Like the submission outbox, each change is sent, then re-read until the
+ * remote copy carries its `updatedAt`; failures back off exponentially. Until then every
+ * pull lays the local version over the sheet row, so an older row cannot overwrite it.
+ */
+export class UpdateQueue {
+  private flushing: Promise<void> | null = null;
+  private timer: number | undefined;
+
+  constructor(
+    private send: (update: PendingUpdate) => Promise<void>,
+    private refresh: () => Promise<unknown> // A fresh pull, which reconciles the queue
+  ) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flush());
+      this.schedule();
+    }
+  }
+
+  private read(): PendingUpdate[] {
+    try {
+      const stored = localStorage.getItem(UPDATES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private write(updates: PendingUpdate[]) {
+    localStorage.setItem(UPDATES_KEY, JSON.stringify(updates));
+  }
+
+  private patch(kind: UpdateKind, id: string, changes: Partial<PendingUpdate>) {
+    this.write(this.read().map(u => sameRecord(u, kind, id) ? { ...u, ...changes } : u));
+  }
+
+  private backoff(attempt: number): number {
+    const { RETRY_BASE_MS, RETRY_MAX_MS } = CONFIG.SYNC_SETTINGS;
+    return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempt - 1, 0)), RETRY_MAX_MS);
+  }
+
+  /** A newer change to the same record replaces the queued one; the record carries both. */
+  enqueue(kind: UpdateKind, record: VersionedRecord) {
+    const update: PendingUpdate = { kind, record, status: 'pending', attempts: 0, confirmChecks: 0, nextAttemptAt: Date.now() };
+    this.write([...this.read().filter(u => !sameRecord(u, kind, record.id)), update]);
+    this.flush();
+  }
+
+  list(): PendingUpdate[] {
+    return this.read();
+  }
+
+  /**
+   * Drops queued changes the remote rows have caught up with and returns the rows with
+   * the remaining local versions laid over them.
+   */
+  reconcile<T extends VersionedRecord>(kind: UpdateKind, remote: T[]): T[] {
+    const all = this.read();
+    const queued = all.filter(u => u.kind === kind);
+    if (queued.length === 0) return remote;
+    const byId = new Map(remote.map(r => [r.id, r]));
+    const landed = queued.filter(u => {
+      const row = byId.get(u.record.id);
+      return !!row?.updatedAt && !!u.record.updatedAt && row.updatedAt >= u.record.updatedAt;
+    });
+    if (landed.length > 0) this.write(all.filter(u => !landed.includes(u)));
+    const waiting = new Map(queued.filter(u => !landed.includes(u)).map(u => [u.record.id, u.record as T]));
+    return remote.map(r => waiting.get(r.id) || r);
+  }
+
+  flush(force = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.process(force).finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async process(force: boolean) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    const due = this.read().filter(u => force || u.nextAttemptAt <= Date.now());
+    if (due.some(u => u.status === 'sent')) await this.confirm(due.filter(u => u.status === 'sent'));
+    for (const update of due.filter(u => u.status !== 'sent')) {
+      const attempts = update.attempts + 1;
+      try {
+        await this.send(update);
+        this.patch(update.kind, update.record.id, {
+          status: 'sent',
+          attempts,
+          confirmChecks: 0,
+          nextAttemptAt: Date.now() + CONFIG.SYNC_SETTINGS.RETRY_BASE_MS,
+          lastError: undefined
+        });
+      } catch (err: any) {
+        this.patch(update.kind, update.record.id, {
+          status: 'failed',
+          attempts,
+          nextAttemptAt: Date.now() + this.backoff(attempts),
+          lastError: err?.message || 'Send failed'
+        });
+      }
+    }
+  }
+
+  // One pull checks every sent change; reconcile() removes those that landed
+  private async confirm(sent: PendingUpdate[]) {
+    let error: string | undefined;
+    try {
+      await this.refresh();
+    } catch (err: any) {
+      error = err?.message || 'Confirmation failed';
+    }
+    const still = this.read();
+    sent.filter(u => still.some(s => sameRecord(s, u.kind, u.record.id) && s.status === 'sent')).forEach(u => {
+      const checks = u.confirmChecks + 1;
+      if (!error && checks >= CONFIG.SYNC_SETTINGS.CONFIRM_ATTEMPTS) {
+        // The change never landed; send it again (same updatedAt, so the sheet can de-duplicate)
+        this.patch(u.kind, u.record.id, { status: 'failed', confirmChecks: checks, nextAttemptAt: Date.now() + this.backoff(u.attempts), lastError: 'Change not found in data source' });
+      } else {
+        this.patch(u.kind, u.record.id, { confirmChecks: error ? u.confirmChecks : checks, nextAttemptAt: Date.now() + this.backoff(checks), lastError: error });
+      }
+    });
+  }
+
+  private schedule() {
+    if (typeof window === 'undefined') return;
+    window.clearTimeout(this.timer);
+    const next = this.read().reduce((min, u) => Math.min(min, u.nextAttemptAt), Infinity);
+    if (next === Infinity) return;
+    this.timer = window.setTimeout(() => this.flush(), Math.max(next - Date.now(), 0));
+  }
+}
@@ -0,0 +1,71 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ActivityCategory } from '../types';
+import { WorkTimer } from './workTimer';
+
+// Program zone is Asia/Kolkata: midnight on 2 May is 2024-05-01T18:30Z
+const at = (iso: string) => vi.setSystemTime(new Date(iso));
+
+describe('WorkTimer across the program-day boundary', () => {
+  let timer: WorkTimer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    timer = new WorkTimer('TNT_0001');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('splits a segment paused after midnight between the two days', () => {
+    at('2024-05-01T17:30:00Z'); // 23:00 IST
+    timer.start(ActivityCategory.PROJECT);
+    at('2024-05-01T19:00:00Z'); // 00:30 IST
+    timer.pause();
+
+    const state = timer.read();
+    expect(state.date).toBe('2024-05-02');
+    expect(timer.trackedMinutes()).toBe(30);
+    expect(state.unlogged).toEqual([{ date: '2024-05-01', trackedMs: { [ActivityCategory.PROJECT]: 60 * 60000 } }]);
+    expect(timer.toSessions('2024-05-01')).toEqual([{ category: ActivityCategory.PROJECT, minutes: 60 }]);
+    expect(timer.toSessions()).toEqual([{ category: ActivityCategory.PROJECT, minutes: 30 }]);
+  });
+
+  it('keeps counting a running timer from midnight without charging yesterday to today', () => {
+    at('2024-05-01T17:30:00Z');
+    timer.start(ActivityCategory.LEARNING);
+    at('2024-05-01T19:30:00Z'); // 01:00 IST, still running
+    expect(timer.isRunning()).toBe(true);
+    expect(timer.trackedMinutes()).toBe(60);
+    expect(timer.toSessions('2024-05-01')).toEqual([{ category: ActivityCategory.LEARNING, minutes: 60 }]);
+  });
+
+  it('keeps time paused before midnight instead of discarding it the next day', () => {
+    at('2024-05-01T15:00:00Z'); // 20:30 IST
+    timer.start(ActivityCategory.PRACTICE);
+    at('2024-05-01T17:00:00Z');
+    timer.pause();
+    at('2024-05-02T04:00:00Z'); // next morning
+
+    expect(timer.trackedMinutes()).toBe(0);
+    expect(timer.toSessions('2024-05-01')).toEqual([{ category: ActivityCategory.PRACTICE, minutes: 120 }]);
+  });
+
+  it('resets today without losing unlogged days, which are cleared one by one', () => {
+    at('2024-05-01T15:00:00Z');
+    timer.start();
+    at('2024-05-01T16:00:00Z');
+    timer.pause();
+    at('2024-05-02T04:00:00Z');
+    timer.start();
+    at('2024-05-02T05:00:00Z');
+    timer.reset();
+
+    expect(timer.trackedMinutes()).toBe(0);
+    expect(timer.read().unlogged?.map(d => d.date)).toEqual(['2024-05-01']);
+    timer.clearDay('2024-05-01');
+    expect(timer.read().unlogged).toEqual([]);
+  });
+});
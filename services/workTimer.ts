@@ -0,0 +1,154 @@
+import { ActivityCategory, WorkSession } from '../types';
+import { CONFIG } from './config';
+import { programToday, programDayStart, addDays } from '../utils/dates';
+
+type TrackedTime = Partial<Record<ActivityCategory, number>>;
+
+/** Time tracked on an earlier program day that has not been logged yet. */
+export interface UnloggedDay {
+  date: string;
+  trackedMs: TrackedTime;
+}
+
+export interface TimerState {
+  date: string;               // Program day the tracked time belongs to
+  category: ActivityCategory; // Category the running segment is charged to
+  startedAt: number | null;   // Epoch ms while running, null while paused
+  trackedMs: TrackedTime;
+  unlogged?: UnloggedDay[];   // Earlier days, kept until logged or discarded
+}
+
+const TIMER_KEY_PREFIX = 'cial_work_timer_';
+
+/**
+ * Start/pause/stop work timer for one intern, persisted in localStorage so it
+ * survives reloads. Time accumulates per category for the current program day;
+ * at midnight the day's time moves to `unlogged`, so it can still be logged late.
+ */
+export class WorkTimer {
+  private listeners = new Set<() => void>();
+
+  constructor(private internId: string) {}
+
+  private get key() {
+    return `${TIMER_KEY_PREFIX}${this.internId}`;
+  }
+
+  private emptyState(category: ActivityCategory = ActivityCategory.LEARNING): TimerState {
+    return { date: programToday(), category, startedAt: null, trackedMs: {} };
+  }
+
+  read(): TimerState {
+    try {
+      const stored = localStorage.getItem(this.key);
+      const state: TimerState | null = stored ? JSON.parse(stored) : null;
+      if (!state) return this.emptyState();
+      const current = this.rollOver(state);
+      // Saved without notifying: listeners call read() themselves
+      if (current !== state) localStorage.setItem(this.key, JSON.stringify(current));
+      return current;
+    } catch (e) {
+      return this.emptyState();
+    }
+  }
+
+  /**
+   * Moves an earlier day's time into `unlogged`. A segment still running is split at the
+   * boundary: time before midnight stays with its day, the rest counts from today's start.
+   * Whole days in between are not counted; nobody works through them.
+   */
+  private rollOver(state: TimerState, today = programToday()): TimerState {
+    if (state.date === today) return state;
+    const dayEnd = programDayStart(addDays(state.date, 1));
+    const closed = state.startedAt !== null ? this.settle(state, Math.max(dayEnd, state.startedAt)) : state;
+    const earlier = hasTime(closed.trackedMs) ? [{ date: state.date, trackedMs: closed.trackedMs }] : [];
+    return {
+      date: today,
+      category: state.category,
+      startedAt: state.startedAt !== null ? Math.max(state.startedAt, programDayStart(today)) : null,
+      trackedMs: {},
+      unlogged: [...(state.unlogged || []), ...earlier]
+    };
+  }
+
+  private write(state: TimerState) {
+    localStorage.setItem(this.key, JSON.stringify(state));
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isRunning(): boolean {
+    return this.read().startedAt !== null;
+  }
+
+  start(category?: ActivityCategory) {
+    const state = this.read();
+    if (state.startedAt !== null) return;
+    this.write({ ...state, category: category || state.category, startedAt: Date.now() });
+  }
+
+  pause() {
+    this.write(this.settle(this.read()));
+  }
+
+  /** Switching category closes the running segment so earlier time keeps its category. */
+  setCategory(category: ActivityCategory) {
+    const state = this.read();
+    const settled = this.settle(state);
+    this.write({ ...settled, category, startedAt: state.startedAt !== null ? Date.now() : null });
+  }
+
+  /** Discards today's time; unlogged earlier days are kept. */
+  reset() {
+    const state = this.read();
+    this.write({ ...this.emptyState(state.category), unlogged: state.unlogged });
+  }
+
+  /** Drops an earlier day once it has been logged or discarded. */
+  clearDay(date: string) {
+    const state = this.read();
+    if (!state.unlogged?.some(d => d.date === date)) return;
+    this.write({ ...state, unlogged: state.unlogged.filter(d => d.date !== date) });
+  }
+
+  /** Total tracked time today, including the running segment. */
+  elapsedMs(state: TimerState = this.read()): number {
+    const stored = Object.values(state.trackedMs).reduce((acc, ms) => acc + (ms || 0), 0);
+    return stored + (state.startedAt !== null ? Date.now() - state.startedAt : 0);
+  }
+
+  trackedMinutes(): number {
+    return Math.floor(this.elapsedMs() / 60000);
+  }
+
+  /**
+   * Tracked time as duration sessions, rounded to SESSION_SETTINGS.STEP_MINUTES, for pre-filling
+   * the log form. Today's by default, or an unlogged earlier day's.
+   */
+  toSessions(date?: string): WorkSession[] {
+    const { STEP_MINUTES } = CONFIG.SESSION_SETTINGS;
+    const state = this.read();
+    const trackedMs = date && date !== state.date
+      ? state.unlogged?.find(d => d.date === date)?.trackedMs || {}
+      : this.settle(state).trackedMs;
+    return (Object.entries(trackedMs) as [ActivityCategory, number][])
+      .map(([category, ms]) => ({ category, minutes: Math.round(ms / 60000 / STEP_MINUTES) * STEP_MINUTES }))
+      .filter(s => s.minutes > 0);
+  }
+
+  private settle(state: TimerState, until = Date.now()): TimerState {
+    if (state.startedAt === null) return state;
+    const elapsed = until - state.startedAt;
+    return {
+      ...state,
+      startedAt: null,
+      trackedMs: { ...state.trackedMs, [state.category]: (state.trackedMs[state.category] || 0) + elapsed }
+    };
+  }
+}
+
+const hasTime = (trackedMs: TrackedTime) => Object.values(trackedMs).some(ms => (ms || 0) > 0);
@@ -1,9 +1,26 @@
 
 export enum UserRole {
   INTERN = 'INTERN',
+  MENTOR = 'MENTOR',
+  REVIEWER = 'REVIEWER',
   ADMIN = 'ADMIN'
 }
 
+export enum Permission {
+  VIEW_OWN_ACTIVITY = 'VIEW_OWN_ACTIVITY',
+  SUBMIT_ACTIVITY = 'SUBMIT_ACTIVITY',
+  VIEW_ASSIGNED_INTERNS = 'VIEW_ASSIGNED_INTERNS',
+  VIEW_ALL_INTERNS = 'VIEW_ALL_INTERNS',
+  REVIEW_ACTIVITY = 'REVIEW_ACTIVITY',
+  REQUEST_LEAVE = 'REQUEST_LEAVE',
+  APPROVE_LEAVE = 'APPROVE_LEAVE',
+  EDIT_ANY_ACTIVITY = 'EDIT_ANY_ACTIVITY',
+  EXPORT_DATA = 'EXPORT_DATA',
+  ISSUE_CERTIFICATE = 'ISSUE_CERTIFICATE',
+  MANAGE_ROSTER = 'MANAGE_ROSTER',
+  MANAGE_CONFIG = 'MANAGE_CONFIG'
+}
+
 export enum ActivityCategory {
   LEARNING = 'Learning',
   PRACTICE = 'Practice',
@@ -12,16 +29,154 @@ export enum ActivityCategory {
   RESEARCH = 'Research'
 }
 
+export enum ReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  NEEDS_REVISION = 'needs-revision'
+}
+
+export interface ActivityReview {
+  status: ReviewStatus;
+  reviewerId?: string;
+  comment?: string;
+  reviewedAt?: string; // ISO timestamp
+}
+
+/** One block of work within a day. Timed sessions carry start/end; duration-only ones just minutes. */
+export interface WorkSession {
+  start?: string; // HH:MM, local time
+  end?: string;   // HH:MM, same day
+  minutes: number;
+  category: ActivityCategory;
+}
+
+export type EditableActivityField = 'hours' | 'category' | 'description' | 'proofLink';
+
+export interface FieldChange {
+  field: EditableActivityField | 'withdrawn';
+  from: unknown;
+  to: unknown;
+}
+
+/** Append-only audit entry; revisions are never rewritten once recorded. */
+export interface ActivityRevision {
+  at: string;
+  by: string; // internId of the editor
+  action: 'edit' | 'withdraw';
+  changes: FieldChange[];
+  note?: string;
+}
+
+export type QualityCriterion = 'specificity' | 'learning' | 'relevance' | 'evidence';
+
+/** AI rubric assessment of an entry. A failed one carries no scores rather than a made-up default. */
+export interface QualityAssessment {
+  status: 'scored' | 'failed';
+  scores?: Record<QualityCriterion, number>; // 1-10 per criterion
+  feedback?: string; // One sentence addressed to the intern
+  error?: string; // Why scoring failed
+  flags?: string[]; // Why the entry looks written to game the score; held for review
+  notes?: string[]; // Weaker signs of the same: shown to reviewers, the entry still counts
+  scorer?: string; // Model or scorer that produced it
+  assessedAt: string;
+}
+
+/** Closest other description when the entry was submitted or last edited. Whose it was is not stored here. */
+export interface SimilarityMatch {
+  score: number; // 0-1 Jaccard similarity of word shingles
+  own: boolean; // The intern repeated one of their own entries
+  date: string; // Day of the matching entry
+}
+
+/** The identifying side of a match, resolved on demand for reviewers only. */
+export interface SimilaritySource extends SimilarityMatch {
+  activityId: string;
+  internId: string;
+}
+
+/** What an intern is told before submitting a near-copy; other interns stay anonymous. */
+export interface SimilarityWarning {
+  score: number;
+  own: boolean;
+  date?: string; // Only for the intern's own earlier entry
+}
+
 export interface Activity {
   id: string;
   internId: string;
   date: string; // ISO Date
   timestamp: string;
-  hours: number; // 2, 3+
-  category: ActivityCategory;
+  hours: number; // Sum of sessions when present
+  category: ActivityCategory; // Category with the most session time
+  sessions?: WorkSession[];
+  trackedMinutes?: number; // Built-in timer total for the day, when the intern used it
   description: string;
   proofLink?: string;
-  qualityScore?: number; // 1-10 (AI Generated)
+  qualityScore?: number; // 1-10 rubric average; absent when scoring failed
+  quality?: QualityAssessment;
+  similarity?: SimilarityMatch; // At or above SIMILARITY.THRESHOLD it is a suspected copy, held for review unless the match is the intern's own
+  review?: ActivityReview; // Absent until a mentor or admin looks at it
+  isLate?: boolean; // Backdated entry: only counts once approved
+  withdrawn?: boolean; // Soft-deleted: kept for the audit trail, ignored everywhere else
+  revisions?: ActivityRevision[];
+  updatedAt?: string; // Stamped by the sheet store on every change; a pull confirms the change once the row carries it
+}
+
+export enum LeaveStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export interface LeaveRequest {
+  id: string;
+  internId: string;
+  startDate: string; // ISO Date
+  endDate: string;   // ISO Date, inclusive
+  reason: string;
+  attachment?: string; // URL or Base64 image, like Activity.proofLink
+  status: LeaveStatus;
+  submittedAt: string;
+  reviewerId?: string;
+  decidedAt?: string;
+  decisionComment?: string;
+  updatedAt?: string; // As Activity.updatedAt
+}
+
+/** Program-wide day off; bridges gaps for every intern without using leave allowance. */
+export interface Holiday {
+  date: string; // ISO Date
+  name: string;
+}
+
+/**
+ * Issued certificate of completion. `code` is what gets printed and typed into the
+ * verification page; `hash` seals the printed fields so an edited record stops verifying.
+ */
+export interface Certificate {
+  id: string;
+  code: string;
+  internId: string;
+  internName: string;
+  cohortName?: string;
+  startDate: string; // ISO Date, joining date
+  endDate: string;   // ISO Date, last counted activity
+  activeDays: number;
+  totalHours: number;
+  issuedAt: string;
+  issuedBy: string;
+  hash: string; // SHA-256 hex
+  revokedAt?: string;
+  revokedBy?: string;
+  revocationReason?: string;
+}
+
+export type CertificateStatus = 'valid' | 'revoked' | 'tampered' | 'not-found';
+
+export interface CertificateCheck {
+  status: CertificateStatus;
+  certificate?: Certificate;
 }
 
 export interface User {
@@ -31,6 +186,59 @@ export interface User {
   role: UserRole;
   internId: string;
   joiningDate: string;
+  cohortId?: string;
+  mentorId?: string; // internId of a directly assigned mentor
+  active?: boolean; // false once deactivated; the account can no longer sign in but its history stays
+}
+
+/** Login secret and lockout state for one account, kept on the device it was set on. Secrets are only ever stored hashed. */
+export interface Credential {
+  internId: string;
+  pinHash?: string;
+  salt?: string;
+  failedAttempts: number;
+  lockedUntil?: string; // ISO timestamp
+  updatedAt: string;
+}
+
+export interface Cohort {
+  id: string;
+  name: string;
+  startDate: string; // ISO Date
+  endDate: string;   // ISO Date, last program day
+  ruleSetId: string;
+  mentorIds: string[]; // internId of each mentor
+}
+
+export type EligibilityRule =
+  | { type: 'minActiveDays'; days: number }
+  | { type: 'minAverageHours'; hours: number }
+  | { type: 'maxGapDays'; days: number }
+  | { type: 'minAverageQuality'; score: number }
+  | { type: 'categoryQuota'; category: ActivityCategory; minDays: number }
+  | { type: 'excusedDaysAllowance'; days: number };
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  rules: EligibilityRule[];
+}
+
+export interface RuleResult {
+  rule: EligibilityRule;
+  label: string;
+  passed: boolean;
+  measured: number;
+  required: number;
+  message?: string; // Failure explanation, mirrored into EligibilityResult.reasons
+  notApplicable?: boolean; // Nothing to measure yet; counted as passed
+}
+
+/** A run of consecutive days without a counted (or excused) submission. */
+export interface GapRun {
+  start: string; // ISO Date
+  end: string;   // ISO Date, inclusive
+  days: number;
 }
 
 export interface EligibilityResult {
@@ -39,6 +247,13 @@ export interface EligibilityResult {
   averageHours: number;
   maxGapDays: number;
   reasons: string[];
+  windowStart: string; // ISO Date, joining date
+  windowEnd: string;   // ISO Date, last day of the program
+  daysRemaining: number; // Calendar days left in the window, today included
+  isTargetReachable: boolean;
+  ruleSetId: string;
+  ruleResults: RuleResult[];
+  gaps: GapRun[];
 }
 
 export interface Statistics {
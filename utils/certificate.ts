@@ -0,0 +1,69 @@
+import { Certificate } from '../types';
+import { CONFIG } from '../services/config';
+import { randomChars, sha256Hex } from './crypto';
+import { escapeHtml } from './download';
+import { formatDate, toProgramDate } from './dates';
+
+// No 0/O, 1/I/L or U, so a code read off paper can't be mistyped into another valid one
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export const generateCertificateCode = (): string =>
+  `${CONFIG.CERTIFICATE_SETTINGS.CODE_PREFIX}-${randomChars(4, CODE_ALPHABET)}-${randomChars(4, CODE_ALPHABET)}`;
+
+/** Accepts codes typed with spaces, lowercase or missing dashes. */
+export const normalizeCertificateCode = (input: string): string => {
+  const prefix = CONFIG.CERTIFICATE_SETTINGS.CODE_PREFIX.toUpperCase();
+  let compact = input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  if (compact.startsWith(prefix)) compact = compact.slice(prefix.length);
+  return compact.length === 8 ? `${prefix}-${compact.slice(0, 4)}-${compact.slice(4)}` : input.trim().toUpperCase();
+};
+
+/** Hash over the fields printed on the certificate, in a fixed order. Revocation fields are deliberately left out. */
+export const certificateHash = (cert: Omit<Certificate, 'hash'>): Promise<string> =>
+  sha256Hex(JSON.stringify([
+    cert.code, cert.internId, cert.internName, cert.cohortName || '',
+    cert.startDate, cert.endDate, cert.activeDays, cert.totalHours, cert.issuedAt, cert.issuedBy
+  ]));
+
+/** Public verification link; the hash route works on any static host. */
+export const verificationUrl = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}#/verify/${encodeURIComponent(code)}`;
+
+const longDate = (iso: string) => formatDate(iso, { day: 'numeric', month: 'long', year: 'numeric' }, 'en-GB');
+
+/** Landscape, single-page certificate ready for printHtml. */
+export const buildCertificateHtml = (cert: Certificate, verifyUrl: string): string => {
+  const { PROGRAM_NAME, SIGNATORY } = CONFIG.CERTIFICATE_SETTINGS;
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Certificate ${escapeHtml(cert.code)}</title><style>
+    @page { size: A4 landscape; margin: 0; }
+    body { margin: 0; font-family: Georgia, 'Times New Roman', serif; color: #0f172a; }
+    .sheet { box-sizing: border-box; width: 297mm; height: 210mm; padding: 14mm; }
+    .frame { box-sizing: border-box; height: 100%; border: 3px double #1e3a8a; padding: 14mm 20mm; text-align: center; position: relative; }
+    img { height: 64px; }
+    .kicker { font-family: Arial, sans-serif; font-size: 11px; letter-spacing: .35em; text-transform: uppercase; color: #64748b; margin-top: 18px; }
+    h1 { font-size: 40px; margin: 10px 0 4px; letter-spacing: .04em; }
+    .name { font-size: 34px; font-style: italic; margin: 22px 0 6px; border-bottom: 1px solid #cbd5e1; display: inline-block; padding: 0 30px 6px; }
+    p { font-size: 15px; line-height: 1.6; margin: 8px 0; }
+    .facts { display: flex; justify-content: center; gap: 48px; margin-top: 18px; font-family: Arial, sans-serif; }
+    .facts b { display: block; font-size: 20px; } .facts span { font-size: 10px; letter-spacing: .2em; text-transform: uppercase; color: #64748b; }
+    .footer { position: absolute; left: 20mm; right: 20mm; bottom: 12mm; display: flex; justify-content: space-between; align-items: flex-end; font-family: Arial, sans-serif; }
+    .sign { border-top: 1px solid #0f172a; padding-top: 6px; font-size: 12px; min-width: 200px; }
+    .verify { text-align: right; font-size: 10px; color: #475569; } .verify b { font-size: 13px; color: #0f172a; letter-spacing: .1em; }
+  </style></head><body><div class="sheet"><div class="frame">
+    <img src="${escapeHtml(CONFIG.LOGO_URL)}" alt="">
+    <div class="kicker">${escapeHtml(PROGRAM_NAME)}</div>
+    <h1>Certificate of Completion</h1>
+    <p>This certifies that</p>
+    <div class="name">${escapeHtml(cert.internName)}</div>
+    <p>${cert.cohortName ? `of ${escapeHtml(cert.cohortName)}, ` : ''}has completed the internship programme<br>from ${longDate(cert.startDate)} to ${longDate(cert.endDate)}.</p>
+    <div class="facts">
+      <div><b>${cert.activeDays}</b><span>Active Days</span></div>
+      <div><b>${cert.totalHours}</b><span>Hours Logged</span></div>
+      <div><b>${longDate(toProgramDate(cert.issuedAt))}</b><span>Issued</span></div>
+    </div>
+    <div class="footer">
+      <div class="sign">${escapeHtml(SIGNATORY)}</div>
+      <div class="verify">Verification code<br><b>${escapeHtml(cert.code)}</b><br>${escapeHtml(verifyUrl)}</div>
+    </div>
+  </div></div></body></html>`;
+};
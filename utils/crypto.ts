@@ -0,0 +1,64 @@
+// Thin helpers over Web Crypto (available in browsers and Node 20+)
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const toBase64Url = (text: string): string =>
+  btoa(unescape(encodeURIComponent(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (encoded: string): string => {
+  const padded = encoded.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((encoded.length + 3) % 4);
+  return decodeURIComponent(escape(atob(padded)));
+};
+
+export const randomHex = (bytes = 16): string => {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return toHex(buf.buffer);
+};
+
+/** Uniformly random numeric code, e.g. a 6-digit one-time password. */
+export const randomDigits = (length: number): string => {
+  const buf = new Uint32Array(length);
+  crypto.getRandomValues(buf);
+  return Array.from(buf, n => String(n % 10)).join('');
+};
+
+/** Random string over `alphabet`; rejection sampling keeps every character equally likely. */
+export const randomChars = (length: number, alphabet: string): string => {
+  const limit = 256 - (256 % alphabet.length);
+  let out = '';
+  while (out.length < length) {
+    const buf = new Uint8Array(length * 2);
+    crypto.getRandomValues(buf);
+    for (const b of buf) {
+      if (b < limit && out.length < length) out += alphabet[b % alphabet.length];
+    }
+  }
+  return out;
+};
+
+export const sha256Hex = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+/** PBKDF2-SHA256 secret hash, hex encoded. */
+export const hashSecret = async (secret: string, salt: string, iterations = 100000): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations }, key, 256);
+  return toHex(bits);
+};
+
+export const hmacSha256Hex = async (secret: string, data: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+};
+
+/** Constant-time comparison for hashes and signatures. */
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
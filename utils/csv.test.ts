@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsvField, toCSV, parseCSV } from './csv';
+
+describe('escapeCsvField', () => {
+  it('leaves plain values alone and blanks null and undefined', () => {
+    expect(escapeCsvField('Project')).toBe('Project');
+    expect(escapeCsvField(4.5)).toBe('4.5');
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+
+  it('quotes commas, quotes, line breaks and edge whitespace', () => {
+    expect(escapeCsvField('a,b')).toBe('"a,b"');
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvField('line 1\nline 2')).toBe('"line 1\nline 2"');
+    expect(escapeCsvField('line 1\r\nline 2')).toBe('"line 1\r\nline 2"');
+    expect(escapeCsvField(' padded ')).toBe('" padded "');
+  });
+
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    expect(escapeCsvField('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`);
+    expect(escapeCsvField('+1')).toBe("'+1");
+    expect(escapeCsvField('-cmd')).toBe("'-cmd");
+    expect(escapeCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvField(-5)).toBe('-5'); // Numbers are data, not formulas
+  });
+});
+
+describe('toCSV', () => {
+  it('writes CRLF-terminated rows with an optional BOM', () => {
+    expect(toCSV(['ID', 'Hours'], [['a1', 4]])).toBe('ID,Hours\r\na1,4\r\n');
+    expect(toCSV(['ID'], [], { bom: true })).toBe('\uFEFFID\r\n');
+  });
+
+  it('reads back exactly what it wrote', () => {
+    const rows = [
+      ['a1', 'Fixed the "export", then\r\nwrote tests', '=1+1', ''],
+      ['a2', ' spaced ', '@mention', 'multi\nline']
+    ];
+    expect(parseCSV(toCSV(['ID', 'Description', 'Note', 'Extra'], rows, { bom: true }))).toEqual([['ID', 'Description', 'Note', 'Extra'], ...rows]);
+  });
+});
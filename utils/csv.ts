@@ -0,0 +1,58 @@
+// Spreadsheet apps evaluate cells starting with these as formulas (CSV injection)
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+export interface CsvOptions {
+  bom?: boolean; // Prepend a UTF-8 byte-order mark so Excel detects the encoding
+}
+
+/** One RFC 4180 field: quoted when needed, embedded quotes doubled, formula triggers neutralised. */
+export const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIXES.some(p => text.startsWith(p))) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Header row plus one record per row, CRLF-terminated as the RFC specifies. */
+export const toCSV = (headers: string[], rows: unknown[][], options: CsvOptions = {}): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+  return `${options.bom ? '\uFEFF' : ''}${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Parses RFC 4180 text into rows of raw strings. Accepts CRLF or LF, a leading BOM and
+ * quoted fields spanning lines; the `'` guard that escapeCsvField adds is stripped again.
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endField = () => {
+    row.push(field.startsWith("'") && FORMULA_PREFIXES.includes(field[1]) ? field.slice(1) : field);
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') quoted = true;
+    else if (char === ',') endField();
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endField();
+      rows.push(row);
+      row = [];
+    } else field += char;
+  }
+  if (field !== '' || row.length > 0) {
+    endField();
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { isIsoDate, addDays, daysBetween, addMonths, expandDateRange, toProgramDate, programToday, programDayStart } from './dates';
+
+describe('calendar-day arithmetic', () => {
+  it('counts whole days across DST changes', () => {
+    // US spring forward (2024-03-10) and fall back (2024-11-03), EU fall back (2024-10-27)
+    expect(daysBetween('2024-03-09', '2024-03-11')).toBe(2);
+    expect(daysBetween('2024-11-02', '2024-11-04')).toBe(2);
+    expect(daysBetween('2024-10-26', '2024-10-28')).toBe(2);
+    expect(addDays('2024-03-09', 1)).toBe('2024-03-10');
+    expect(addDays('2024-11-03', 1)).toBe('2024-11-04');
+  });
+
+  it('crosses month, year and leap-day boundaries', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    expect(daysBetween('2024-03-01', '2024-02-28')).toBe(-2);
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+  });
+
+  it('expands inclusive ranges through a DST change', () => {
+    expect(expandDateRange('2024-03-09', '2024-03-11')).toEqual(['2024-03-09', '2024-03-10', '2024-03-11']);
+    expect(expandDateRange('2024-03-11', '2024-03-09')).toEqual([]);
+  });
+
+  it('recognises only real ISO dates', () => {
+    expect(isIsoDate('2024-02-29')).toBe(true);
+    expect(isIsoDate('2023-02-29')).toBe(false);
+    expect(isIsoDate('2024-2-9')).toBe(false);
+  });
+});
+
+describe('program calendar', () => {
+  it('rolls over at midnight in the program zone, not in UTC', () => {
+    // Midnight IST is 18:30 UTC the previous day
+    expect(toProgramDate('2024-05-01T18:29:59Z', 'Asia/Kolkata')).toBe('2024-05-01');
+    expect(toProgramDate('2024-05-01T18:30:00Z', 'Asia/Kolkata')).toBe('2024-05-02');
+    expect(programToday(new Date('2024-05-01T18:45:00Z'))).toBe('2024-05-02');
+  });
+
+  it('follows the zone offset on both sides of a DST change', () => {
+    // New York is UTC-5 before 2024-03-10 02:00 local and UTC-4 after
+    expect(toProgramDate('2024-03-10T04:59:59Z', 'America/New_York')).toBe('2024-03-09');
+    expect(toProgramDate('2024-03-10T05:00:00Z', 'America/New_York')).toBe('2024-03-10');
+    expect(toProgramDate('2024-03-11T03:59:59Z', 'America/New_York')).toBe('2024-03-10');
+    expect(toProgramDate('2024-03-11T04:00:00Z', 'America/New_York')).toBe('2024-03-11');
+  });
+
+  it('finds the instant a program day begins, on both sides of a DST change', () => {
+    expect(new Date(programDayStart('2024-05-02', 'Asia/Kolkata')).toISOString()).toBe('2024-05-01T18:30:00.000Z');
+    expect(new Date(programDayStart('2024-03-10', 'America/New_York')).toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(new Date(programDayStart('2024-03-11', 'America/New_York')).toISOString()).toBe('2024-03-11T04:00:00.000Z');
+    expect(new Date(programDayStart('2024-11-04', 'America/New_York')).toISOString()).toBe('2024-11-04T05:00:00.000Z');
+  });
+
+  it('gives an empty string for unparseable instants', () => {
+    expect(toProgramDate('not a date')).toBe('');
+  });
+});
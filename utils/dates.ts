@@ -0,0 +1,125 @@
+import { CONFIG } from '../services/config';
+
+/**
+ * Program calendar. Activity dates are plain YYYY-MM-DD strings that mean a day in
+ * PROGRAM_SETTINGS.TIMEZONE, whatever zone the browser runs in. Instants (timestamps,
+ * Date.now()) are turned into such days with toProgramDate; day arithmetic never
+ * goes through local Date objects, so DST shifts cannot skew a count.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const dayFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isIsoDate = (value: string): boolean => ISO_DATE.test(value) && fromDayNumber(toDayNumber(value)) === value;
+
+// Calendar-day arithmetic on YYYY-MM-DD strings, done in UTC so DST shifts never skew a day count
+export const toDayNumber = (isoDate: string): number => {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+export const fromDayNumber = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+export const addDays = (isoDate: string, days: number): string => fromDayNumber(toDayNumber(isoDate) + days);
+
+/** Whole calendar days from `from` to `to`; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string): number => toDayNumber(to) - toDayNumber(from);
+
+export const addMonths = (isoDate: string, months: number): string => {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+/** Every calendar day from start to end, inclusive. */
+export const expandDateRange = (start: string, end: string): string[] => {
+  const first = toDayNumber(start);
+  const last = toDayNumber(end);
+  if (isNaN(first) || isNaN(last)) return [];
+  return Array.from({ length: Math.max(last - first + 1, 0) }, (_, i) => fromDayNumber(first + i));
+};
+
+/** The program-calendar day an instant falls on. Unparseable input gives "". */
+export const toProgramDate = (instant: Date | number | string = Date.now(), timeZone = CONFIG.PROGRAM_SETTINGS.TIMEZONE): string => {
+  const date = instant instanceof Date ? instant : new Date(instant);
+  if (isNaN(date.getTime())) return '';
+  const parts = dayFormatter(timeZone).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// Dates outside this range are typos or misread cells, not program days
+const MIN_YEAR = 2000;
+const MAX_YEAR = 2100;
+
+const inRange = (iso: string) => {
+  const year = Number(iso.slice(0, 4));
+  return isIsoDate(iso) && year >= MIN_YEAR && year <= MAX_YEAR;
+};
+
+/**
+ * One spreadsheet date cell as YYYY-MM-DD, or throws with the reason. Sheets and XLSX files
+ * hand dates back as plain text, as serialized Date objects, or as serial day numbers.
+ * Serialized dates are UTC instants (IST midnight arrives as the previous day at 18:30Z),
+ * so they are read on the program calendar.
+ * Numeric day/month formats are refused: "01/05/2024" means a different day in India and the US.
+ */
+export const readDate = (value: any): string => {
+  const text = String(value instanceof Date ? value.toISOString() : value).trim();
+  let iso: string;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) iso = text;
+  else if (/^\d{4}-\d{2}-\d{2}T/.test(text)) iso = toProgramDate(text);
+  // Serial day 25569 is 1970-01-01 in Sheets and Excel alike
+  else if (/^\d+(\.\d+)?$/.test(text)) iso = fromDayNumber(Math.floor(Number(text)) - 25569);
+  else if (/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(text)) throw new Error(`"${text}" is ambiguous; use YYYY-MM-DD`);
+  else {
+    // Named months ("1 May 2024") are unambiguous; they parse as local midnight
+    const parsed = new Date(text);
+    if (!/[a-z]{3}/i.test(text) || isNaN(parsed.getTime())) throw new Error(`"${text}" is not a date`);
+    iso = `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+  }
+  if (!inRange(iso)) throw new Error(`"${text}" is not a date between ${MIN_YEAR} and ${MAX_YEAR}`);
+  return iso;
+};
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// How far the zone's wall clock is ahead of UTC at an instant, in ms
+const zoneOffsetMs = (instant: number, timeZone: string): number => {
+  let formatter = clockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' });
+    clockFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(p => [p.type, Number(p.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/** The instant a program-calendar day begins (midnight in the program zone), as epoch ms. */
+export const programDayStart = (isoDate: string, timeZone = CONFIG.PROGRAM_SETTINGS.TIMEZONE): number => {
+  const midnightUtc = toDayNumber(isoDate) * DAY_MS;
+  // Second pass picks up a DST change between the first guess and the real midnight
+  const guess = midnightUtc - zoneOffsetMs(midnightUtc, timeZone);
+  return midnightUtc - zoneOffsetMs(guess, timeZone);
+};
+
+/** Today on the program calendar; `now` is only passed in to pin the clock. */
+export const programToday = (now: Date | number = Date.now()): string => toProgramDate(now);
+
+/** Displays a calendar date as that same day for every viewer, e.g. formatDate(d, { month: 'short' }). */
+export const formatDate = (isoDate: string, options: Intl.DateTimeFormatOptions = {}, locale?: string): string =>
+  new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
@@ -0,0 +1,28 @@
+/** Saves generated content through a temporary object URL; everything stays in the browser. */
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const escapeHtml = (text: unknown) => String(text ?? '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Opens generated HTML in a new window and hands it to the print dialog ("Save as PDF"). */
+export const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Allow pop-ups for this site to open the printable report.');
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out its charts before printing
+  win.setTimeout(() => win.print(), 300);
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Activity, ActivityCategory } from '../types';
+import { calculateStats, countsTowardEligibility } from './logic';
+import { programToday } from './dates';
+
+const entry = (date: string, hours = 4): Activity => ({
+  id: `act-${date}`,
+  internId: 'TNT_0001',
+  date,
+  timestamp: `${date}T12:00:00Z`,
+  hours,
+  category: ActivityCategory.LEARNING,
+  description: 'Worked through the routing chapter and rebuilt the settings page with nested routes.'
+});
+
+describe('calculateStats streak', () => {
+  it('keeps the streak when an IST intern submits just after midnight', () => {
+    // 00:15 IST on 2 May is still 1 May in UTC
+    const today = programToday(new Date('2024-05-01T18:45:00Z'));
+    const stats = calculateStats([entry('2024-04-30'), entry('2024-05-01'), entry('2024-05-02')], today);
+    expect(today).toBe('2024-05-02');
+    expect(stats.currentStreak).toBe(3);
+  });
+
+  it('stays alive through today until a whole day is missed', () => {
+    expect(calculateStats([entry('2024-05-01'), entry('2024-05-02')], '2024-05-03').currentStreak).toBe(2);
+    expect(calculateStats([entry('2024-05-01'), entry('2024-05-02')], '2024-05-04').currentStreak).toBe(0);
+  });
+
+  it('counts consecutive days across a DST change', () => {
+    const stats = calculateStats([entry('2024-03-09'), entry('2024-03-10'), entry('2024-03-11')], '2024-03-11');
+    expect(stats.currentStreak).toBe(3);
+    const autumn = calculateStats([entry('2024-10-26'), entry('2024-10-27'), entry('2024-10-28')], '2024-10-28');
+    expect(autumn.currentStreak).toBe(3);
+  });
+
+  it('breaks on a gap and ignores future-dated entries', () => {
+    const stats = calculateStats([entry('2024-05-01'), entry('2024-05-03'), entry('2024-05-04'), entry('2024-05-09')], '2024-05-04');
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.totalActiveDays).toBe(4);
+  });
+});
+
+describe('countsTowardEligibility with a suspected copy', () => {
+  const copy = (own: boolean): Activity => ({ ...entry('2024-05-02'), similarity: { score: 0.95, own, date: own ? '2024-05-01' : '' } });
+
+  it("holds a near-copy of another intern's entry for review", () => {
+    expect(countsTowardEligibility(copy(false))).toBe(false);
+  });
+
+  it("still counts a near-repeat of the intern's own earlier log", () => {
+    expect(countsTowardEligibility(copy(true))).toBe(true);
+  });
+});
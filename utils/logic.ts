@@ -1,47 +1,172 @@
 
-import { Activity, EligibilityResult, Statistics } from '../types';
+import { Activity, Cohort, EligibilityResult, GapRun, LeaveRequest, LeaveStatus, ReviewStatus, RuleSet, Statistics, User } from '../types';
 import { CONFIG } from '../services/config';
+import { getRuleSet, evaluateRuleSet, getRequirement } from './rules';
+import { categoryHours } from './sessions';
+import { isSuspicious } from './quality';
+import { isHeldAsCopy } from './similarity';
+import { toDayNumber, fromDayNumber, addMonths, expandDateRange, programToday, addDays, daysBetween } from './dates';
 
-export const calculateEligibility = (activities: Activity[], joiningDate: string): EligibilityResult => {
-  const sorted = [...activities].sort((a, b) => a.date.localeCompare(b.date));
-  const uniqueDates = new Set(activities.map(a => a.date));
+/** Last day of the program: joining date plus TOTAL_INTERNSHIP_MONTHS, exclusive. */
+export const getProgramEndDate = (joiningDate: string): string =>
+  addDays(addMonths(joiningDate, CONFIG.PROGRAM_SETTINGS.TOTAL_INTERNSHIP_MONTHS), -1);
+
+/** Whether an intern may still correct their own entry, per EDIT_SETTINGS.INTERN_GRACE_HOURS. */
+export const isWithinEditWindow = (activity: Activity, now = Date.now()): boolean => {
+  const submitted = new Date(activity.timestamp).getTime();
+  return !isNaN(submitted) && now - submitted <= CONFIG.EDIT_SETTINGS.INTERN_GRACE_HOURS * 60 * 60 * 1000;
+};
+
+/** Days covered by the intern's approved leave, for EligibilityOptions.excusedDates. */
+export const getApprovedLeaveDates = (internId: string, leaveRequests: LeaveRequest[]): string[] => {
+  const dates = new Set<string>();
+  leaveRequests
+    .filter(l => l.internId === internId && l.status === LeaveStatus.APPROVED)
+    .forEach(l => expandDateRange(l.startDate, l.endDate).forEach(d => dates.add(d)));
+  return Array.from(dates).sort();
+};
+
+export const getReviewStatus = (activity: Activity): ReviewStatus => activity.review?.status || ReviewStatus.PENDING;
+
+export const isWithdrawn = (activity: Activity): boolean => activity.withdrawn === true;
+
+/**
+ * Approved entries always count; unreviewed ones only while REVIEW_SETTINGS.COUNT_PENDING is on,
+ * the entry was logged on the day itself and its description was neither flagged as gaming the scorer
+ * nor a suspected copy of another intern's entry.
+ */
+export const countsTowardEligibility = (activity: Activity): boolean => {
+  if (isWithdrawn(activity)) return false;
+  const status = getReviewStatus(activity);
+  if (status === ReviewStatus.APPROVED) return true;
+  return status === ReviewStatus.PENDING && CONFIG.REVIEW_SETTINGS.COUNT_PENDING && !activity.isLate && !isSuspicious(activity) && !isHeldAsCopy(activity);
+};
+
+/** Dates an intern can still log: today plus BACKDATE_SETTINGS.MAX_DAYS_BACK, newest first, minus those taken. */
+export const getOpenSubmissionDates = (activities: Activity[], todayStr = programToday()): string[] => {
+  const taken = new Set(activities.filter(a => !isWithdrawn(a)).map(a => a.date));
+  const today = toDayNumber(todayStr);
+  return Array.from({ length: CONFIG.BACKDATE_SETTINGS.MAX_DAYS_BACK + 1 }, (_, i) => fromDayNumber(today - i))
+    .filter(date => !taken.has(date));
+};
+
+export interface EligibilityOptions {
+  ruleSet?: RuleSet;
+  windowEnd?: string; // Defaults to joining date + TOTAL_INTERNSHIP_MONTHS
+  excusedDates?: string[]; // Days that bridge gaps without counting as active, charged to the leave allowance
+  holidayDates?: string[]; // Program-wide days off: bridge gaps, never charged to the allowance
+  todayStr?: string;
+}
+
+export const calculateEligibility = (
+  activities: Activity[],
+  joiningDate: string,
+  options: EligibilityOptions = {}
+): EligibilityResult => {
+  const ruleSet = options.ruleSet || getRuleSet();
+  const todayStr = options.todayStr || programToday();
+  const windowStart = joiningDate;
+  const windowEnd = options.windowEnd || getProgramEndDate(joiningDate);
+  const startDay = toDayNumber(windowStart);
+  const endDay = toDayNumber(windowEnd);
+  const today = toDayNumber(todayStr);
+
+  const inWindow = activities.filter(a => countsTowardEligibility(a) && a.date >= windowStart && a.date <= windowEnd && a.date <= todayStr);
+  const uniqueDates = new Set(inWindow.map(a => a.date));
   const activeDays = uniqueDates.size;
   
-  const totalHours = activities.reduce((acc, curr) => acc + (Number(curr.hours) || 0), 0);
+  const totalHours = inWindow.reduce((acc, curr) => acc + (Number(curr.hours) || 0), 0);
   const averageHours = activeDays > 0 ? totalHours / activeDays : 0;
 
-  let maxGap = 0;
-  if (sorted.length > 1) {
-    for (let i = 1; i < sorted.length; i++) {
-      const prevDate = new Date(sorted[i - 1].date);
-      const currDate = new Date(sorted[i].date);
-      const diffTime = currDate.getTime() - prevDate.getTime();
-      const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24)) - 1;
-      if (diffDays > maxGap) maxGap = diffDays;
+  const scored = inWindow.filter(a => typeof a.qualityScore === 'number');
+  const averageQuality = scored.length > 0 ? scored.reduce((acc, a) => acc + (a.qualityScore || 0), 0) / scored.length : undefined;
+
+  const categoryDates: Record<string, Set<string>> = {};
+  inWindow.forEach(a => Object.keys(categoryHours(a)).forEach(cat => {
+    (categoryDates[cat] = categoryDates[cat] || new Set()).add(a.date);
+  }));
+  const categoryDays = Object.fromEntries(Object.entries(categoryDates).map(([cat, dates]) => [cat, dates.size]));
+
+  // Gaps run from the joining date to the first entry, between entries, and from the last
+  // entry to today. Today itself is still open, so it only counts once the window has closed.
+  const lastCountedDay = today > endDay ? endDay : today - 1;
+  const bridges = (day: number) => day >= startDay && day <= lastCountedDay && !uniqueDates.has(fromDayNumber(day));
+  const holidays = new Set((options.holidayDates || []).map(toDayNumber).filter(bridges));
+  const excused = new Set((options.excusedDates || []).map(toDayNumber).filter(day => bridges(day) && !holidays.has(day)));
+  const days = [...Array.from(uniqueDates).map(toDayNumber), ...Array.from(excused), ...Array.from(holidays)].sort((a, b) => a - b);
+  const gaps: GapRun[] = [];
+  if (lastCountedDay >= startDay) {
+    let previous = startDay - 1;
+    for (const day of [...days, lastCountedDay + 1]) {
+      if (day - previous > 1) {
+        gaps.push({ start: fromDayNumber(previous + 1), end: fromDayNumber(day - 1), days: day - previous - 1 });
+      }
+      previous = day;
     }
   }
+  const maxGap = gaps.reduce((max, g) => Math.max(max, g.days), 0);
+
+  const ruleResults = evaluateRuleSet(ruleSet, {
+    activeDays,
+    averageHours,
+    maxGapDays: maxGap,
+    averageQuality,
+    categoryDays,
+    excusedDays: excused.size
+  });
+
+  const minDays = getRequirement(ruleSet, 'minActiveDays', 0);
+  const maxAllowedGap = getRequirement(ruleSet, 'maxGapDays', Infinity);
 
-  const minDays = CONFIG.PROGRAM_SETTINGS.MIN_DAYS_FOR_CERTIFICATE;
-  const minHours = CONFIG.PROGRAM_SETTINGS.MIN_HOURS_PER_DAY;
-  const maxAllowedGap = CONFIG.PROGRAM_SETTINGS.MAX_ALLOWED_GAP_DAYS;
+  const daysRemaining = Math.max(endDay - Math.max(today, startDay) + 1, 0);
+  const openDays = daysRemaining - (uniqueDates.has(todayStr) ? 1 : 0);
+  const isTargetReachable = activeDays + openDays >= minDays && maxGap <= maxAllowedGap;
 
-  const reasons: string[] = [];
-  if (activeDays < minDays) reasons.push(`Requires ${minDays} active days (Current: ${activeDays})`);
-  if (averageHours < minHours) reasons.push(`Average hours must be ≥ ${minHours} (Current: ${averageHours.toFixed(1)})`);
-  if (maxGap > maxAllowedGap) reasons.push(`Maximum gap exceeded ${maxAllowedGap} consecutive days (Worst gap: ${maxGap} days)`);
+  const reasons = ruleResults.filter(r => !r.passed).map(r => r.message as string);
+  if (activeDays + openDays < minDays) reasons.push(`Only ${openDays} days left in the program window (ends ${windowEnd})`);
 
   return {
     isEligible: reasons.length === 0 && activeDays > 0,
     activeDays,
     averageHours,
     maxGapDays: maxGap,
-    reasons
+    reasons,
+    windowStart,
+    windowEnd,
+    daysRemaining,
+    isTargetReachable,
+    ruleSetId: ruleSet.id,
+    ruleResults,
+    gaps
   };
 };
 
-export const calculateStats = (activities: Activity[]): Statistics => {
+/**
+ * Eligibility against the intern's cohort: cohort dates and rule set apply, and a personal
+ * joining date later than the cohort start narrows the window.
+ */
+export const calculateInternEligibility = (
+  intern: User,
+  activities: Activity[],
+  cohort?: Cohort,
+  options: EligibilityOptions = {}
+): EligibilityResult => {
+  const firstActivity = [...activities].sort((a, b) => a.date.localeCompare(b.date))[0];
+  const joined = intern.joiningDate && (!cohort || intern.joiningDate > cohort.startDate)
+    ? intern.joiningDate
+    : cohort?.startDate || firstActivity?.date || programToday();
+  return calculateEligibility(activities, joined, {
+    ruleSet: getRuleSet(cohort?.ruleSetId),
+    windowEnd: cohort?.endDate || undefined,
+    ...options
+  });
+};
+
+export const calculateStats = (entries: Activity[], todayStr = programToday()): Statistics => {
+  const allActivities = entries.filter(a => !isWithdrawn(a));
+  const activities = allActivities.filter(countsTowardEligibility);
   if (activities.length === 0) {
-    return { totalActiveDays: 0, averageHours: 0, currentStreak: 0, totalSubmissions: 0 };
+    return { totalActiveDays: 0, averageHours: 0, currentStreak: 0, totalSubmissions: allActivities.length };
   }
 
   const uniqueDates = new Set(activities.map(a => a.date));
@@ -49,44 +174,18 @@ export const calculateStats = (activities: Activity[]): Statistics => {
   const totalHours = activities.reduce((acc, curr) => acc + (Number(curr.hours) || 0), 0);
   const averageHours = activeDays > 0 ? totalHours / activeDays : 0;
 
+  // A streak stays alive until a whole program day passes without an entry
   let streak = 0;
-  const dateStrs = Array.from(uniqueDates).sort().reverse(); 
-  
-  if (dateStrs.length > 0) {
-    const todayStr = new Date().toISOString().split('T')[0];
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-    if (dateStrs[0] !== todayStr && dateStrs[0] !== yesterdayStr) {
-      streak = 0;
-    } else {
-      streak = 1;
-      for (let i = 1; i < dateStrs.length; i++) {
-        const d1 = new Date(dateStrs[i-1]);
-        const d2 = new Date(dateStrs[i]);
-        const diff = (d1.getTime() - d2.getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (Math.round(diff) === 1) {
-          streak++;
-        } else {
-          break;
-        }
-      }
-    }
+  const dateStrs = Array.from(uniqueDates).filter(d => d <= todayStr).sort().reverse();
+  if (dateStrs.length > 0 && daysBetween(dateStrs[0], todayStr) <= 1) {
+    streak = 1;
+    while (streak < dateStrs.length && dateStrs[streak] === addDays(dateStrs[streak - 1], -1)) streak++;
   }
 
   return {
     totalActiveDays: activeDays,
     averageHours,
     currentStreak: streak,
-    totalSubmissions: activities.length
+    totalSubmissions: allActivities.length
   };
 };
-
-export const formatCSV = (data: any[]): string => {
-  if (data.length === 0) return '';
-  const headers = Object.keys(data[0]).join(',');
-  const rows = data.map(obj => Object.values(obj).map(v => `"${v}"`).join(',')).join('\n');
-  return `${headers}\n${rows}`;
-};
@@ -0,0 +1,136 @@
+import { Activity, Cohort } from '../types';
+import { buildXlsx, XlsxSheet } from './xlsx';
+import { InternSummary, SUMMARY_COLUMNS, ACTIVITY_COLUMNS, EligibilityStatus, buildTable, getEligibilityStatus } from './reportData';
+import { isWithdrawn } from './logic';
+import { toDayNumber, fromDayNumber } from './dates';
+import { escapeHtml } from './download';
+
+const PER_INTERN_COLUMNS = ACTIVITY_COLUMNS.filter(c => !['internId', 'name', 'cohort'].includes(c.key));
+
+const STATUS_COLORS: Record<EligibilityStatus, string> = {
+  Eligible: '#16a34a',
+  Pending: '#f59e0b',
+  Unreachable: '#dc2626'
+};
+
+/** Summary sheet plus one activity sheet per intern, oldest entry first. */
+export const buildProgramWorkbook = (summaries: InternSummary[], activities: Activity[]): Uint8Array => {
+  const summary = buildTable(SUMMARY_COLUMNS, summaries);
+  const sheets: XlsxSheet[] = [{ name: 'Summary', headers: summary.headers, rows: summary.values }];
+  summaries.forEach(({ intern, cohort }) => {
+    const rows = activities
+      .filter(a => a.internId === intern.internId)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(activity => ({ activity, intern, cohort }));
+    const table = buildTable(PER_INTERN_COLUMNS, rows);
+    sheets.push({ name: `${intern.internId} ${intern.name}`, headers: table.headers, rows: table.values });
+  });
+  return buildXlsx(sheets);
+};
+
+interface Bar { label: string; value: number; color?: string }
+
+const barChart = (bars: Bar[], width = 520, barHeight = 22): string => {
+  const max = Math.max(...bars.map(b => b.value), 1);
+  const labelWidth = 140;
+  const height = bars.length * (barHeight + 8);
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+    bars.map((b, i) => {
+      const y = i * (barHeight + 8);
+      const w = ((width - labelWidth - 50) * b.value) / max;
+      return `<text x="0" y="${y + barHeight * 0.7}" font-size="11" fill="#475569">${escapeHtml(b.label)}</text>` +
+        `<rect x="${labelWidth}" y="${y}" width="${w.toFixed(1)}" height="${barHeight}" rx="3" fill="${b.color || '#2563eb'}"/>` +
+        `<text x="${(labelWidth + w + 6).toFixed(1)}" y="${y + barHeight * 0.7}" font-size="11" font-weight="700" fill="#0f172a">${b.value}</text>`;
+    }).join('') +
+    '</svg>';
+};
+
+const lineChart = (points: { label: string; value: number }[], width = 520, height = 140): string => {
+  if (points.length < 2) return '<p class="muted">Not enough data.</p>';
+  const max = Math.max(...points.map(p => p.value), 1);
+  const x = (i: number) => (i / (points.length - 1)) * (width - 20) + 10;
+  const y = (v: number) => height - 20 - (v / max) * (height - 40);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+    `<line x1="10" x2="${width - 10}" y1="${height - 20}" y2="${height - 20}" stroke="#cbd5e1"/>` +
+    `<path d="${path}" fill="none" stroke="#2563eb" stroke-width="2"/>` +
+    `<text x="10" y="${height - 4}" font-size="10" fill="#64748b">${escapeHtml(points[0].label)}</text>` +
+    `<text x="${width - 10}" y="${height - 4}" font-size="10" fill="#64748b" text-anchor="end">${escapeHtml(points[points.length - 1].label)}</text>` +
+    `<text x="10" y="12" font-size="10" fill="#64748b">max ${max}</text>` +
+    '</svg>';
+};
+
+/** Submissions per week (weeks start on Sunday), zero-filled between the first and last week. */
+const weeklyTotals = (activities: Activity[]) => {
+  const counts = new Map<number, number>();
+  activities.forEach(a => {
+    const day = toDayNumber(a.date);
+    if (isNaN(day)) return;
+    const week = day - ((day + 4) % 7);
+    counts.set(week, (counts.get(week) || 0) + 1);
+  });
+  const weeks = Array.from(counts.keys()).sort((a, b) => a - b);
+  if (weeks.length === 0) return [];
+  const series = [];
+  for (let w = weeks[0]; w <= weeks[weeks.length - 1]; w += 7) series.push({ label: fromDayNumber(w), value: counts.get(w) || 0 });
+  return series;
+};
+
+/** Self-contained, print-ready HTML; the browser's print dialog turns it into the PDF. */
+export const buildProgramReportHtml = (summaries: InternSummary[], activities: Activity[], cohorts: Cohort[], title: string): string => {
+  const statuses: EligibilityStatus[] = ['Eligible', 'Pending', 'Unreachable'];
+  const statusBars = statuses.map(s => ({ label: s, value: summaries.filter(r => getEligibilityStatus(r.eligibility) === s).length, color: STATUS_COLORS[s] }));
+  const cohortBars = [...cohorts.map(c => ({ id: c.id, name: c.name })), { id: undefined, name: 'Unassigned' }]
+    .map(c => {
+      const members = summaries.filter(r => (r.cohort?.id) === c.id);
+      return { label: c.name, value: members.filter(r => r.eligibility.isEligible).length, total: members.length };
+    })
+    .filter(c => c.total > 0)
+    .map(c => ({ label: `${c.label} (${c.total})`, value: c.value, color: '#16a34a' }));
+  const buckets = [0, 15, 30, 45, 60, 75, 90];
+  const distribution = buckets.map((lo, i) => {
+    const hi = buckets[i + 1];
+    return {
+      label: hi === undefined ? `${lo}+ days` : `${lo}–${hi - 1} days`,
+      value: summaries.filter(r => r.stats.totalActiveDays >= lo && (hi === undefined || r.stats.totalActiveDays < hi)).length
+    };
+  });
+  const internIds = new Set(summaries.map(r => r.intern.internId));
+  const trend = weeklyTotals(activities.filter(a => internIds.has(a.internId) && !isWithdrawn(a)));
+  const avgDays = summaries.length > 0 ? summaries.reduce((acc, r) => acc + r.stats.totalActiveDays, 0) / summaries.length : 0;
+  const atRisk = summaries.filter(r => !r.eligibility.isEligible).sort((a, b) => a.eligibility.daysRemaining - b.eligibility.daysRemaining);
+
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>
+    body { font-family: Inter, Arial, sans-serif; color: #0f172a; margin: 32px; }
+    h1 { font-size: 22px; margin: 0; } h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .1em; color: #64748b; margin: 28px 0 10px; }
+    .muted { color: #64748b; font-size: 12px; }
+    .kpis { display: flex; gap: 12px; margin-top: 20px; } .kpi { flex: 1; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+    .kpi b { display: block; font-size: 22px; } .kpi span { font-size: 10px; text-transform: uppercase; color: #64748b; font-weight: 700; }
+    .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; } th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+    th { font-size: 10px; text-transform: uppercase; color: #64748b; } section { page-break-inside: avoid; }
+    @media print { body { margin: 12mm; } .page-break { page-break-before: always; } }
+  </style></head><body>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="muted">Generated ${escapeHtml(new Date().toLocaleString())} • ${summaries.length} interns</p>
+    <div class="kpis">
+      <div class="kpi"><b>${summaries.length}</b><span>Interns</span></div>
+      ${statusBars.map(b => `<div class="kpi"><b style="color:${b.color}">${b.value}</b><span>${b.label}</span></div>`).join('')}
+      <div class="kpi"><b>${avgDays.toFixed(1)}</b><span>Avg Active Days</span></div>
+    </div>
+    <div class="grid">
+      <section><h2>Eligibility Status</h2>${barChart(statusBars)}</section>
+      <section><h2>Eligible by Cohort</h2>${cohortBars.length > 0 ? barChart(cohortBars) : '<p class="muted">No cohorts.</p>'}</section>
+      <section><h2>Active Days Distribution</h2>${barChart(distribution)}</section>
+      <section><h2>Submissions per Week</h2>${lineChart(trend)}</section>
+    </div>
+    <section class="page-break"><h2>Not Yet Eligible (${atRisk.length})</h2>
+      <table><thead><tr><th>ID</th><th>Name</th><th>Cohort</th><th>Active Days</th><th>Max Gap</th><th>Days Left</th><th>Status</th><th>Reasons</th></tr></thead><tbody>
+      ${atRisk.map(r => `<tr><td>${escapeHtml(r.intern.internId)}</td><td>${escapeHtml(r.intern.name)}</td><td>${escapeHtml(r.cohort?.name || '')}</td>` +
+        `<td>${r.stats.totalActiveDays}</td><td>${r.eligibility.maxGapDays}</td><td>${r.eligibility.daysRemaining}</td>` +
+        `<td style="color:${STATUS_COLORS[getEligibilityStatus(r.eligibility)]}">${getEligibilityStatus(r.eligibility)}</td>` +
+        `<td>${escapeHtml(r.eligibility.reasons.join('; '))}</td></tr>`).join('')}
+      </tbody></table>
+    </section>
+  </body></html>`;
+};
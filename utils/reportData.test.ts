@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { ActivityCategory } from '../types';
+import { ACTIVITY_COLUMNS, buildTable } from './reportData';
+
+describe('activity export columns', () => {
+  it('exports the activity ID and the intern ID under their own headers', () => {
+    const activity = { id: 'act-42', internId: 'TNT_0001', date: '2024-05-01', timestamp: '', hours: 4, category: ActivityCategory.PROJECT, description: '' };
+    const columns = ACTIVITY_COLUMNS.filter(c => ['id', 'internId'].includes(c.key));
+    expect(buildTable(columns, [{ activity }])).toEqual({ headers: ['Activity ID', 'Intern ID'], values: [['act-42', 'TNT_0001']] });
+  });
+});
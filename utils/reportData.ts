@@ -0,0 +1,75 @@
+import { Activity, Cohort, EligibilityResult, Statistics, User } from '../types';
+import { calculateStats, getReviewStatus, isWithdrawn } from './logic';
+
+export type EligibilityStatus = 'Eligible' | 'Pending' | 'Unreachable';
+
+/** Everything the roster shows for one intern, as assembled by AdminDashboard.getInternStats. */
+export interface InternSummary {
+  intern: User;
+  cohort?: Cohort;
+  stats: Statistics;
+  eligibility: EligibilityResult;
+}
+
+export interface ActivityRow {
+  activity: Activity;
+  intern?: User;
+  cohort?: Cohort;
+}
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => unknown;
+}
+
+export const getEligibilityStatus = (eligibility: EligibilityResult): EligibilityStatus =>
+  eligibility.isEligible ? 'Eligible' : eligibility.isTargetReachable ? 'Pending' : 'Unreachable';
+
+export const SUMMARY_COLUMNS: ExportColumn<InternSummary>[] = [
+  { key: 'id', label: 'ID', value: r => r.intern.internId },
+  { key: 'name', label: 'Name', value: r => r.intern.name },
+  { key: 'email', label: 'Email', value: r => r.intern.email },
+  { key: 'cohort', label: 'Cohort', value: r => r.cohort?.name || '' },
+  { key: 'activeDays', label: 'ActiveDays', value: r => r.stats.totalActiveDays },
+  { key: 'avgHours', label: 'AvgHours', value: r => Number(r.stats.averageHours.toFixed(2)) },
+  { key: 'submissions', label: 'Submissions', value: r => r.stats.totalSubmissions },
+  { key: 'maxGap', label: 'MaxGap', value: r => r.eligibility.maxGapDays },
+  { key: 'rulesPassed', label: 'RulesPassed', value: r => `${r.eligibility.ruleResults.filter(x => x.passed).length}/${r.eligibility.ruleResults.length}` },
+  { key: 'programStarts', label: 'ProgramStarts', value: r => r.eligibility.windowStart },
+  { key: 'programEnds', label: 'ProgramEnds', value: r => r.eligibility.windowEnd },
+  { key: 'daysRemaining', label: 'DaysRemaining', value: r => r.eligibility.daysRemaining },
+  { key: 'status', label: 'Status', value: r => getEligibilityStatus(r.eligibility) },
+  { key: 'reasons', label: 'Reasons', value: r => r.eligibility.reasons.join('; ') }
+];
+
+export const ACTIVITY_COLUMNS: ExportColumn<ActivityRow>[] = [
+  { key: 'id', label: 'Activity ID', value: r => r.activity.id },
+  { key: 'internId', label: 'Intern ID', value: r => r.activity.internId },
+  { key: 'name', label: 'Name', value: r => r.intern?.name || '' },
+  { key: 'cohort', label: 'Cohort', value: r => r.cohort?.name || '' },
+  { key: 'date', label: 'Date', value: r => r.activity.date },
+  { key: 'hours', label: 'Hours', value: r => r.activity.hours },
+  { key: 'category', label: 'Category', value: r => r.activity.category },
+  { key: 'description', label: 'Description', value: r => r.activity.description },
+  { key: 'proof', label: 'Proof', value: r => r.activity.proofLink?.startsWith('data:') ? '[image]' : r.activity.proofLink || '' },
+  { key: 'quality', label: 'QualityScore', value: r => r.activity.qualityScore ?? (r.activity.quality?.status === 'failed' ? 'failed' : '') },
+  { key: 'feedback', label: 'QualityFeedback', value: r => r.activity.quality?.feedback || '' },
+  { key: 'review', label: 'ReviewStatus', value: r => isWithdrawn(r.activity) ? 'withdrawn' : getReviewStatus(r.activity) },
+  { key: 'reviewer', label: 'Reviewer', value: r => r.activity.review?.reviewerId || '' },
+  { key: 'late', label: 'Late', value: r => r.activity.isLate ? 'yes' : '' },
+  { key: 'submittedAt', label: 'SubmittedAt', value: r => r.activity.timestamp }
+];
+
+/** Header labels and cell values for the chosen columns, in column order. */
+export const buildTable = <T>(columns: ExportColumn<T>[], rows: T[]): { headers: string[]; values: unknown[][] } => ({
+  headers: columns.map(c => c.label),
+  values: rows.map(row => columns.map(c => c.value(row)))
+});
+
+/** Summary restricted to a date range: activity counts use the range, eligibility stays program-wide. */
+export const summarizeRange = (summary: InternSummary, activities: Activity[], from?: string, to?: string): InternSummary => {
+  if (!from && !to) return summary;
+  const inRange = activities.filter(a => (!from || a.date >= from) && (!to || a.date <= to));
+  return { ...summary, stats: calculateStats(inRange) };
+};
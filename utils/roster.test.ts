@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Cohort, User, UserRole } from '../types';
+import { guessMapping, buildRosterRows, diffRoster } from './roster';
+
+const cohorts: Cohort[] = [{ id: 'B1', name: 'Batch One', startDate: '2024-05-01', endDate: '2024-07-31', ruleSetId: 'standard', mentorIds: [] }];
+
+const alice: User = { id: 'intern-TNT_0001', name: 'Alice', email: 'alice@example.org', role: UserRole.INTERN, internId: 'TNT_0001', joiningDate: '2024-05-01', cohortId: 'B1' };
+const bob: User = { id: 'intern-TNT_0002', name: 'Bob', email: 'bob@example.org', role: UserRole.INTERN, internId: 'TNT_0002', joiningDate: '2024-05-01' };
+
+const HEADERS = ['Student ID', 'Full Name', 'E-mail', 'Batch', 'Joined'];
+const build = (rows: string[][], current: User[] = []) => buildRosterRows([HEADERS, ...rows], guessMapping(HEADERS), cohorts, current);
+
+describe('guessMapping', () => {
+  it('matches headers by alias, ignoring case and punctuation, and leaves the rest unmapped', () => {
+    expect(guessMapping(['Student ID', 'Full Name', 'E-mail', 'Batch', 'Joined', 'Notes'])).toEqual({
+      internId: 0, name: 1, email: 2, cohort: 3, mentorId: -1, joiningDate: 4, active: -1
+    });
+  });
+});
+
+describe('buildRosterRows', () => {
+  it('reads ISO dates and spreadsheet serials, and refuses dates it would have to guess', () => {
+    const rows = build([
+      ['tnt_0003', 'Cara', 'CARA@example.org', 'batch one', '2024-05-06'],
+      ['TNT_0004', 'Dev', 'dev@example.org', '', '45413'],
+      ['TNT_0005', 'Eve', 'eve@example.org', '', '03/04/2026'],
+      ['TNT_0006', 'Fay', 'fay@example.org', '', '2024-02-30']
+    ]);
+    expect(rows[0]).toMatchObject({ line: 2, errors: [], user: { internId: 'TNT_0003', email: 'cara@example.org', cohortId: 'B1', joiningDate: '2024-05-06' } });
+    expect(rows[1].user.joiningDate).toBe('2024-05-01');
+    expect(rows[2].errors).toEqual(['Invalid joining date: "03/04/2026" is ambiguous; use YYYY-MM-DD.']);
+    expect(rows[3].errors).toHaveLength(1);
+  });
+
+  it('starts known IDs from the current record and falls back to the cohort start date', () => {
+    const rows = buildRosterRows([['ID', 'Name'], ['TNT_0001', 'Alice Smith'], ['TNT_0009', 'Gil']], guessMapping(['ID', 'Name']), cohorts, [alice]);
+    expect(rows[0]).toMatchObject({ errors: [], user: { ...alice, name: 'Alice Smith' } });
+    expect(rows[1].errors).toContain('Missing email.');
+  });
+
+  it('flags unknown cohorts and repeated IDs, and skips blank lines', () => {
+    const rows = build([
+      ['TNT_0007', 'Hal', 'hal@example.org', 'B9', ''],
+      ['', '', '', '', ''],
+      ['TNT_0007', 'Hal again', 'hal2@example.org', '', '']
+    ]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].errors).toEqual(['Unknown cohort "B9".']);
+    expect(rows[1]).toMatchObject({ line: 4, errors: ['Duplicate intern ID (also on row 2).'] });
+  });
+});
+
+describe('diffRoster', () => {
+  const rows = () => build([
+    ['TNT_0001', 'Alice Smith', 'alice@example.org', 'B1', '2024-05-01'],
+    ['TNT_0003', 'Cara', 'cara@example.org', '', '2024-05-06'],
+    ['TNT_0002', 'Bob', 'not-an-email', '', '2024-05-01']
+  ], [alice, bob]);
+
+  it('sorts valid rows into added, updated and unchanged and leaves invalid rows out', () => {
+    const diff = diffRoster([alice, bob], rows());
+    expect(diff.added.map(u => u.internId)).toEqual(['TNT_0003']);
+    expect(diff.updated).toEqual([expect.objectContaining({ before: alice, fields: ['Name'] })]);
+    expect(diff.unchanged).toBe(0);
+    expect(diff.deactivated).toEqual([]);
+  });
+
+  it('only deactivates interns missing from the file when asked, never those on an invalid row', () => {
+    const carl: User = { ...bob, id: 'intern-TNT_0008', internId: 'TNT_0008', name: 'Carl' };
+    const gone: User = { ...carl, id: 'intern-TNT_0010', internId: 'TNT_0010', active: false };
+    expect(diffRoster([alice, bob, carl, gone], rows()).deactivated).toEqual([]);
+    expect(diffRoster([alice, bob, carl, gone], rows(), true).deactivated).toEqual([{ ...carl, active: false }]);
+  });
+});
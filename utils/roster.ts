@@ -0,0 +1,165 @@
+import { User, UserRole, Cohort } from '../types';
+import { isIsoDate, readDate } from './dates';
+
+export type RosterField = 'internId' | 'name' | 'email' | 'cohort' | 'mentorId' | 'joiningDate' | 'active';
+
+/** Column index per field; -1 leaves the field unmapped (existing values are kept). */
+export type ColumnMapping = Record<RosterField, number>;
+
+export const ROSTER_FIELDS: { key: RosterField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'internId', label: 'Intern ID', required: true, aliases: ['internid', 'id', 'studentid'] },
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'fullname', 'studentname'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'emailaddress', 'mail'] },
+  { key: 'cohort', label: 'Cohort', aliases: ['cohort', 'cohortid', 'batch'] },
+  { key: 'mentorId', label: 'Mentor ID', aliases: ['mentor', 'mentorid'] },
+  { key: 'joiningDate', label: 'Joining Date', aliases: ['joiningdate', 'startdate', 'joined'] },
+  { key: 'active', label: 'Active', aliases: ['active', 'status'] }
+];
+
+/** Fields compared by the import diff, with display labels. */
+const DIFF_FIELDS: { key: keyof User; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'cohortId', label: 'Cohort' },
+  { key: 'mentorId', label: 'Mentor' },
+  { key: 'joiningDate', label: 'Joining Date' },
+  { key: 'active', label: 'Active' }
+];
+
+export interface RosterRow {
+  line: number; // 1-based, header included, as spreadsheet apps number rows
+  user: User;
+  errors: string[];
+}
+
+export interface RosterChange {
+  before: User;
+  after: User;
+  fields: string[];
+}
+
+export interface RosterDiff {
+  added: User[];
+  updated: RosterChange[];
+  unchanged: number;
+  deactivated: User[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ID_PATTERN = /^[A-Z0-9_-]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const isActive = (user: User): boolean => user.active !== false;
+
+/** Maps each field to the first header matching one of its aliases exactly. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  ROSTER_FIELDS.forEach(field => {
+    mapping[field.key] = normalized.findIndex(h => field.aliases.includes(h));
+  });
+  return mapping;
+};
+
+const parseActive = (value: string): boolean | null => {
+  const text = value.trim().toLowerCase();
+  if (['', 'yes', 'y', 'true', '1', 'active'].includes(text)) return true;
+  if (['no', 'n', 'false', '0', 'inactive', 'deactivated'].includes(text)) return false;
+  return null;
+};
+
+/** Problems that block saving an intern record, whichever way it was entered. */
+export const validateIntern = (user: User, cohorts: Cohort[]): string[] => {
+  const errors: string[] = [];
+  if (!user.internId) errors.push('Missing intern ID.');
+  else if (!ID_PATTERN.test(user.internId)) errors.push(`Intern ID "${user.internId}" may only use letters, digits, "-" and "_".`);
+  if (!user.name.trim()) errors.push('Missing name.');
+  if (!EMAIL_PATTERN.test(user.email)) errors.push(user.email ? `Invalid email "${user.email}".` : 'Missing email.');
+  if (user.cohortId && !cohorts.some(c => c.id === user.cohortId)) errors.push(`Unknown cohort "${user.cohortId}".`);
+  if (user.joiningDate && !isIsoDate(user.joiningDate)) errors.push(`Invalid joining date "${user.joiningDate}".`);
+  return errors;
+};
+
+/**
+ * Turns sheet rows (header row first) into intern records. Rows for known IDs start
+ * from the current record, so unmapped columns never wipe existing data.
+ */
+export const buildRosterRows = (rows: string[][], mapping: ColumnMapping, cohorts: Cohort[], current: User[]): RosterRow[] => {
+  const byId = new Map(current.map(u => [u.internId, u]));
+  const seen = new Map<string, number>();
+  const cell = (row: string[], field: RosterField) => mapping[field] >= 0 ? String(row[mapping[field]] ?? '').trim() : undefined;
+
+  return rows.slice(1).flatMap((row, index) => {
+    if (row.every(value => !String(value ?? '').trim())) return [];
+    const line = index + 2;
+    const errors: string[] = [];
+    const internId = (cell(row, 'internId') || '').toUpperCase();
+    const existing = byId.get(internId);
+    const user: User = existing ? { ...existing } : {
+      id: `intern-${internId || line}`, name: '', email: '', role: UserRole.INTERN, internId, joiningDate: ''
+    };
+
+    const name = cell(row, 'name');
+    if (name !== undefined) user.name = name;
+    const email = cell(row, 'email');
+    if (email !== undefined) user.email = email.toLowerCase();
+    const mentor = cell(row, 'mentorId');
+    if (mentor !== undefined) user.mentorId = mentor.toUpperCase() || undefined;
+
+    const cohortValue = cell(row, 'cohort');
+    if (cohortValue !== undefined) {
+      const key = cohortValue.toUpperCase();
+      const cohort = cohorts.find(c => c.id.toUpperCase() === key || c.name.toUpperCase() === key);
+      if (cohortValue && !cohort) errors.push(`Unknown cohort "${cohortValue}".`);
+      user.cohortId = cohort?.id;
+    }
+
+    const joined = cell(row, 'joiningDate');
+    if (joined) {
+      try {
+        user.joiningDate = readDate(joined);
+      } catch (e: any) {
+        errors.push(`Invalid joining date: ${e.message}.`);
+      }
+    } else if (!user.joiningDate) {
+      user.joiningDate = cohorts.find(c => c.id === user.cohortId)?.startDate || '';
+    }
+
+    const activeValue = cell(row, 'active');
+    if (activeValue !== undefined) {
+      const active = parseActive(activeValue);
+      if (active === null) errors.push(`Unrecognised active value "${activeValue}".`);
+      else user.active = active ? undefined : false;
+    }
+
+    if (internId && seen.has(internId)) errors.push(`Duplicate intern ID (also on row ${seen.get(internId)}).`);
+    else if (internId) seen.set(internId, line);
+
+    validateIntern(user, cohorts).forEach(e => { if (!errors.includes(e)) errors.push(e); });
+    return [{ line, user, errors }];
+  });
+};
+
+/** Dry run: what committing the valid rows would change. Invalid rows are left out. */
+export const diffRoster = (current: User[], rows: RosterRow[], deactivateMissing = false): RosterDiff => {
+  const byId = new Map(current.map(u => [u.internId, u]));
+  const diff: RosterDiff = { added: [], updated: [], unchanged: 0, deactivated: [] };
+  rows.filter(r => r.errors.length === 0).forEach(({ user }) => {
+    const before = byId.get(user.internId);
+    if (!before) {
+      diff.added.push(user);
+      return;
+    }
+    const fields = DIFF_FIELDS
+      .filter(f => f.key === 'active' ? isActive(before) !== isActive(user) : (before[f.key] || '') !== (user[f.key] || ''))
+      .map(f => f.label);
+    if (fields.length > 0) diff.updated.push({ before, after: user, fields });
+    else diff.unchanged++;
+  });
+  if (deactivateMissing) {
+    const listed = new Set(rows.map(r => r.user.internId));
+    diff.deactivated = current.filter(u => isActive(u) && !listed.has(u.internId)).map(u => ({ ...u, active: false }));
+  }
+  return diff;
+};
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRule, EligibilityMetrics } from './rules';
+
+const metrics: EligibilityMetrics = { activeDays: 90, averageHours: 4, maxGapDays: 0, categoryDays: {}, excusedDays: 0 };
+const rule = { type: 'minAverageQuality' as const, score: 6 };
+
+describe('minAverageQuality', () => {
+  it('does not apply while no counted entry has a score', () => {
+    expect(evaluateRule(rule, metrics)).toMatchObject({ passed: true, notApplicable: true });
+  });
+
+  it('judges the average once something is scored', () => {
+    expect(evaluateRule(rule, { ...metrics, averageQuality: 5.5 }).passed).toBe(false);
+    expect(evaluateRule(rule, { ...metrics, averageQuality: 6 })).toMatchObject({ passed: true, measured: 6 });
+  });
+});
@@ -0,0 +1,109 @@
+import { EligibilityRule, RuleSet, RuleResult } from '../types';
+import { CONFIG } from '../services/config';
+
+/** Measurements a rule set is evaluated against, computed once per intern. */
+export interface EligibilityMetrics {
+  activeDays: number;
+  averageHours: number;
+  maxGapDays: number;
+  averageQuality?: number; // Absent until at least one counted entry has a score
+  categoryDays: Record<string, number>;
+  excusedDays: number;
+}
+
+export const getRuleSet = (id?: string): RuleSet => {
+  const sets = CONFIG.RULE_SETS;
+  return sets.find(r => r.id === id) || sets.find(r => r.id === CONFIG.DEFAULT_RULE_SET) || sets[0];
+};
+
+export const evaluateRule = (rule: EligibilityRule, m: EligibilityMetrics): RuleResult => {
+  switch (rule.type) {
+    case 'minActiveDays':
+      return {
+        rule,
+        label: `${rule.days} Active Days`,
+        measured: m.activeDays,
+        required: rule.days,
+        passed: m.activeDays >= rule.days,
+        message: `Requires ${rule.days} active days (Current: ${m.activeDays})`
+      };
+    case 'minAverageHours':
+      return {
+        rule,
+        label: `High Intensity (Avg ≥ ${rule.hours}h)`,
+        measured: m.averageHours,
+        required: rule.hours,
+        passed: m.averageHours >= rule.hours,
+        message: `Average hours must be ≥ ${rule.hours} (Current: ${m.averageHours.toFixed(1)})`
+      };
+    case 'maxGapDays':
+      return {
+        rule,
+        label: `Consistent (Gap ≤ ${rule.days} Days)`,
+        measured: m.maxGapDays,
+        required: rule.days,
+        passed: m.maxGapDays <= rule.days,
+        message: `Maximum gap exceeded ${rule.days} consecutive days (Worst gap: ${m.maxGapDays} days)`
+      };
+    case 'minAverageQuality':
+      // Nothing scored yet (or scoring is down): the rule has nothing to judge, so it cannot fail
+      if (m.averageQuality === undefined) {
+        return {
+          rule,
+          label: `Quality (Avg ≥ ${rule.score}/10)`,
+          measured: 0,
+          required: rule.score,
+          passed: true,
+          notApplicable: true
+        };
+      }
+      return {
+        rule,
+        label: `Quality (Avg ≥ ${rule.score}/10)`,
+        measured: m.averageQuality,
+        required: rule.score,
+        passed: m.averageQuality >= rule.score,
+        message: `Average quality score must be ≥ ${rule.score} (Current: ${m.averageQuality.toFixed(1)})`
+      };
+    case 'categoryQuota': {
+      const days = m.categoryDays[rule.category] || 0;
+      return {
+        rule,
+        label: `${rule.minDays} ${rule.category} Days`,
+        measured: days,
+        required: rule.minDays,
+        passed: days >= rule.minDays,
+        message: `Requires ${rule.minDays} days of ${rule.category} (Current: ${days})`
+      };
+    }
+    case 'excusedDaysAllowance':
+      return {
+        rule,
+        label: `Excused Days ≤ ${rule.days}`,
+        measured: m.excusedDays,
+        required: rule.days,
+        passed: m.excusedDays <= rule.days,
+        message: `Excused absences exceed the ${rule.days}-day allowance (Used: ${m.excusedDays})`
+      };
+  }
+};
+
+export const evaluateRuleSet = (ruleSet: RuleSet, metrics: EligibilityMetrics): RuleResult[] =>
+  ruleSet.rules.map(rule => {
+    const result = evaluateRule(rule, metrics);
+    return result.passed ? { ...result, message: undefined } : result;
+  });
+
+const EMPTY_METRICS: EligibilityMetrics = {
+  activeDays: 0,
+  averageHours: 0,
+  maxGapDays: 0,
+  categoryDays: {},
+  excusedDays: 0
+};
+
+/** Threshold of the first rule of a given type, e.g. the active-day target for progress bars. */
+export const getRequirement = (ruleSet: RuleSet, type: EligibilityRule['type'], fallback: number): number => {
+  const rule = ruleSet.rules.find(r => r.type === type);
+  return rule ? evaluateRule(rule, EMPTY_METRICS).required : fallback;
+};
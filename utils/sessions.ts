@@ -0,0 +1,80 @@
+import { Activity, ActivityCategory, WorkSession } from '../types';
+import { CONFIG } from '../services/config';
+
+/** Minutes since midnight for an HH:MM string, or NaN. */
+export const parseTime = (time: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return NaN;
+  const [h, m] = [Number(match[1]), Number(match[2])];
+  return h < 24 && m < 60 ? h * 60 + m : NaN;
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+/** Duration of a session; timed sessions are measured from their clock times. */
+export const sessionMinutes = (session: WorkSession): number => {
+  if (session.start && session.end) return parseTime(session.end) - parseTime(session.start);
+  return Number(session.minutes) || 0;
+};
+
+/** Everything wrong with a day's sessions, as user-facing messages. Empty means valid. */
+export const validateSessions = (sessions: WorkSession[]): string[] => {
+  const { STEP_MINUTES, MAX_DAILY_HOURS } = CONFIG.SESSION_SETTINGS;
+  const errors: string[] = [];
+  if (sessions.length === 0) errors.push('Log at least one work session.');
+
+  sessions.forEach((session, idx) => {
+    const label = `Session ${idx + 1}`;
+    if (session.start || session.end) {
+      const [start, end] = [parseTime(session.start || ''), parseTime(session.end || '')];
+      if (isNaN(start) || isNaN(end)) errors.push(`${label}: enter both a start and an end time.`);
+      else if (end <= start) errors.push(`${label}: end time must be after the start time.`);
+      else if (start % STEP_MINUTES !== 0 || end % STEP_MINUTES !== 0) errors.push(`${label}: use ${STEP_MINUTES}-minute steps.`);
+    } else if (!(session.minutes > 0)) {
+      errors.push(`${label}: duration must be greater than zero.`);
+    } else if (session.minutes % STEP_MINUTES !== 0) {
+      errors.push(`${label}: use ${STEP_MINUTES}-minute steps.`);
+    }
+  });
+
+  const timed = sessions
+    .filter(s => s.start && s.end && parseTime(s.end) > parseTime(s.start))
+    .map(s => ({ start: parseTime(s.start as string), end: parseTime(s.end as string), label: `${s.start}–${s.end}` }))
+    .sort((a, b) => a.start - b.start);
+  for (let i = 1; i < timed.length; i++) {
+    if (timed[i].start < timed[i - 1].end) errors.push(`Sessions ${timed[i - 1].label} and ${timed[i].label} overlap.`);
+  }
+
+  const total = sessions.reduce((acc, s) => acc + Math.max(sessionMinutes(s), 0), 0);
+  if (total > MAX_DAILY_HOURS * 60) errors.push(`Total time exceeds the ${MAX_DAILY_HOURS}-hour daily maximum.`);
+  return errors;
+};
+
+/** Hours per category for one entry; entries without sessions put all hours under their category. */
+export const categoryHours = (activity: Activity): Partial<Record<ActivityCategory, number>> => {
+  if (!activity.sessions || activity.sessions.length === 0) {
+    return { [activity.category]: Number(activity.hours) || 0 };
+  }
+  const totals: Partial<Record<ActivityCategory, number>> = {};
+  activity.sessions.forEach(s => {
+    totals[s.category] = (totals[s.category] || 0) + sessionMinutes(s) / 60;
+  });
+  return totals;
+};
+
+/** True when the claimed hours exceed the timer-tracked time by more than the tolerance. */
+export const exceedsTrackedTime = (activity: Pick<Activity, 'hours' | 'trackedMinutes'>): boolean =>
+  typeof activity.trackedMinutes === 'number' &&
+  Math.round(Number(activity.hours) * 60) > activity.trackedMinutes + CONFIG.SESSION_SETTINGS.TRACKED_TOLERANCE_MINUTES;
+
+/** Daily record fields derived from sessions: true hour total and the dominant category. */
+export const summarizeSessions = (sessions: WorkSession[]): { hours: number; category: ActivityCategory } => {
+  const totals = categoryHours({ sessions, hours: 0, category: ActivityCategory.LEARNING } as Activity);
+  const [category] = Object.entries(totals).sort((a, b) => (b[1] as number) - (a[1] as number))[0] || [ActivityCategory.LEARNING];
+  const minutes = sessions.reduce((acc, s) => acc + sessionMinutes(s), 0);
+  return { hours: Math.round((minutes / 60) * 100) / 100, category: category as ActivityCategory };
+};
@@ -0,0 +1,87 @@
+import { Activity } from '../types';
+import { CONFIG } from '../services/config';
+
+/**
+ * Near-duplicate text detection. Descriptions become sets of overlapping word
+ * shingles; a MinHash signature estimates the Jaccard similarity of two such sets
+ * without comparing them directly, so signatures can be cached and compared cheaply.
+ */
+
+/** Lowercase words with punctuation stripped, so reformatting a copy does not hide it. */
+export const normalizeWords = (text: string): string[] =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+/** Overlapping runs of `size` words; a text shorter than that is a single shingle. */
+export const shingles = (text: string, size = CONFIG.SIMILARITY.SHINGLE_SIZE): Set<string> => {
+  const words = normalizeWords(text);
+  if (words.length <= size) return new Set(words.length > 0 ? [words.join(' ')] : []);
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - size; i++) result.add(words.slice(i, i + size).join(' '));
+  return result;
+};
+
+/** Exact Jaccard similarity of two shingle sets, 0 to 1. */
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(s => { if (b.has(s)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// 32-bit FNV-1a
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+// murmur3 finalizer: spreads a seeded value over all 32 bits
+const mix = (value: number): number => {
+  let h = value;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const seedCache = new Map<number, Uint32Array>();
+
+// Fixed seeds, so signatures stay comparable across sessions
+const seedsFor = (count: number): Uint32Array => {
+  let seeds = seedCache.get(count);
+  if (!seeds) {
+    seeds = new Uint32Array(count);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < count; i++) seeds[i] = state = mix(state + i);
+    seedCache.set(count, seeds);
+  }
+  return seeds;
+};
+
+/** One minimum per seeded hash function over the shingles. Empty text gives an all-max signature. */
+export const minHashSignature = (set: Set<string>, count = CONFIG.SIMILARITY.NUM_HASHES): Uint32Array => {
+  const seeds = seedsFor(count);
+  const signature = new Uint32Array(count).fill(0xffffffff);
+  set.forEach(shingle => {
+    const base = hashString(shingle);
+    for (let i = 0; i < count; i++) {
+      const h = mix(base ^ seeds[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  });
+  return signature;
+};
+
+/** Share of matching signature slots: an estimate of the Jaccard similarity. */
+export const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i] && a[i] !== 0xffffffff) equal++;
+  return equal / a.length;
+};
+
+export const isSuspectedCopy = (activity: Activity): boolean =>
+  (activity.similarity?.score || 0) >= CONFIG.SIMILARITY.THRESHOLD;
+
+/** Only copies of another intern's entry wait for review; repeating your own log is shown, not held. */
+export const isHeldAsCopy = (activity: Activity): boolean =>
+  isSuspectedCopy(activity) && activity.similarity?.own !== true;
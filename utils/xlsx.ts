@@ -0,0 +1,155 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+
+export interface XlsxSheet {
+  name: string;
+  headers: string[];
+  rows: unknown[][];
+  columnWidths?: number[]; // In characters; defaults are derived from the content
+}
+
+const MAX_SHEET_NAME = 31;
+
+// XML 1.0 forbids most control characters even when escaped
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export interface XlsxTable {
+  name: string;
+  rows: string[][];
+}
+
+/** A1-style column letters for a zero-based index. */
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/** Excel sheet names: at most 31 chars, none of []:*?/\ and unique within the workbook. */
+const uniqueSheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(raw => {
+    const base = (raw.replace(/[\[\]:*?\/\\]/g, ' ').trim() || 'Sheet').slice(0, MAX_SHEET_NAME);
+    let name = base;
+    for (let i = 2; used.has(name.toLowerCase()); i++) {
+      const suffix = ` (${i})`;
+      name = `${base.slice(0, MAX_SHEET_NAME - suffix.length)}${suffix}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const cellXml = (value: unknown, ref: string, style?: number): string => {
+  const s = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  // Inline strings keep the writer free of a shared-strings table and are never evaluated as formulas
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet): string => {
+  const widths = sheet.headers.map((header, col) => sheet.columnWidths?.[col] ??
+    Math.min(Math.max(header.length, ...sheet.rows.slice(0, 200).map(r => String(r[col] ?? '').length)) + 2, 60));
+  const cols = widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('');
+  const rows = [sheet.headers, ...sheet.rows].map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : undefined)).join('')}</row>`
+  ).join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${cols}</cols><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/** Minimal SpreadsheetML workbook (bold, frozen header row per sheet), zipped in the browser. */
+export const buildXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const names = uniqueSheetNames(sheets.map(s => s.name));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'),
+    '_rels/.rels': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'),
+    'xl/workbook.xml': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>'),
+    'xl/_rels/workbook.xml.rels': strToU8('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'),
+    'xl/styles.xml': strToU8(STYLES_XML)
+  };
+  sheets.forEach((sheet, i) => { files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet)); });
+  return zipSync(files, { level: 6 });
+};
+
+/** Zero-based column index of an A1-style reference such as "AB12". */
+const columnIndex = (ref: string): number =>
+  (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+const parseXml = (files: Record<string, Uint8Array>, path: string): Document | null =>
+  files[path] ? new DOMParser().parseFromString(strFromU8(files[path]), 'application/xml') : null;
+
+// Text of every <t> run, so rich-text cells read as plain strings
+const textOf = (node: Element): string =>
+  Array.from(node.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+/**
+ * Cell text of every worksheet, in workbook order. Numbers come back as written
+ * (dates stay Excel serials); formulas yield their cached value.
+ */
+export const readXlsx = (data: Uint8Array): XlsxTable[] => {
+  const files = unzipSync(data);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook (xl/workbook.xml is missing).');
+
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map(Array.from(rels?.getElementsByTagName('Relationship') || []).map(r => [r.getAttribute('Id'), r.getAttribute('Target') || '']));
+  const sharedDoc = parseXml(files, 'xl/sharedStrings.xml');
+  const shared = Array.from(sharedDoc?.getElementsByTagName('si') || []).map(textOf);
+
+  return Array.from(workbook.getElementsByTagName('sheet')).map(sheet => {
+    const target = targets.get(sheet.getAttribute('r:id')) || '';
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const doc = parseXml(files, path);
+    const rows = Array.from(doc?.getElementsByTagName('row') || []).map(row => {
+      const cells: string[] = [];
+      Array.from(row.getElementsByTagName('c')).forEach((cell, i) => {
+        const ref = cell.getAttribute('r');
+        const col = ref ? columnIndex(ref) : i;
+        const type = cell.getAttribute('t');
+        const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+        cells[col] = type === 's' ? shared[Number(raw)] || ''
+          : type === 'inlineStr' ? textOf(cell)
+          : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+          : raw;
+      });
+      return Array.from(cells, c => c ?? '');
+    });
+    return { name: sheet.getAttribute('name') || '', rows };
+  });
+};